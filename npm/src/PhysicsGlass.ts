@@ -3,8 +3,37 @@ import {
   PhysicsGlassAPI,
   GlassShape,
   BackgroundPattern,
+  PatternDefinition,
+  ShaderHooks,
+  UniformValue,
   GlassMaterial,
+  DispersionModel,
+  EnvironmentConfig,
+  CausticsConfig,
+  PrismConfig,
+  ShapeDimensions,
+  CustomShapeConfig,
+  GlassObjectConfig,
+  GlassRotation,
+  CameraConfig,
+  LightConfig,
+  ThinFilmConfig,
+  Polarization,
+  ToneMapping,
+  ShaderVariant,
+  CompiledProgram,
+  RendererCapabilities,
+  QualityPreset,
+  QualityConfig,
+  BackgroundElement,
+  BackgroundSource,
+  BackgroundTextureConfig,
+  BackgroundFit,
+  BackgroundFitConfig,
+  BackdropConfig,
   ShaderUniforms,
+  RenderTarget,
+  TextureFormat,
   WebGLState,
   PhysicsGlassError,
   ERROR_CODES,
@@ -18,23 +47,140 @@ import {
   createProgram,
   createTextureFromElement,
   loadImageTexture,
+  loadImage,
+  setTextureSampling,
+  getSrgbTextureFormat,
+  loadCubemapTexture,
   createDefaultTexture,
   getUniformLocations,
   createQuadBuffer,
+  createQuadVertexArray,
+  createRenderTarget,
+  getRendererCapabilities,
+  isWebGL2,
+  deleteRenderTarget,
+  getHalfFloatFormat,
   setupContextLossHandling
 } from './utils/webgl';
 
+import {
+  createLinearDispersionModel,
+  getDispersionSpread,
+  getDispersionUniforms,
+  getRefractiveIndex,
+  FRAUNHOFER_LINES
+} from './utils/dispersion';
+
+import { createHeightField, createHeightFieldTexture } from './utils/heightField';
+
+import {
+  GlassLayer,
+  getShapeIndex,
+  getShapeUniforms,
+  getObjectUniforms,
+  validateObject
+} from './utils/scene';
+
+import {
+  getLightUniforms,
+  getPrimaryLightDirection,
+  validateLight,
+  validateLights
+} from './utils/lights';
+
+import { getRotationMatrix } from './utils/rotation';
+import { getThinFilmUniforms, validateThinFilm } from './utils/thinFilm';
+import {
+  DynamicTexture,
+  createDynamicTexture,
+  getElementSize,
+  isVideoElement
+} from './utils/dynamicTexture';
+import {
+  getBackgroundFitUniforms,
+  normalizeBackgroundFit,
+  validateBackgroundFit
+} from './utils/backgroundFit';
+import { captureElement, composeBackdrop, observeBackdrop } from './utils/backdrop';
+import {
+  getPatternIndex,
+  getPatternSource,
+  getPatternUniformNames,
+  validatePatterns
+} from './utils/patterns';
+import {
+  getUniformDeclarations,
+  setUniformValues,
+  validateUniformUpdate,
+  validateUniforms
+} from './utils/uniforms';
+import { getShaderVariant, getVariantDefines, getVariantKey } from './utils/shaderVariants';
+import { acquireProgram, clearProgramCache, releaseProgram } from './utils/programCache';
+import {
+  OBJECT_BLOCK_BINDING,
+  OBJECT_BLOCK_NAME,
+  OBJECT_BLOCK_SIZE,
+  getObjectBlockStride,
+  packObjectUniforms
+} from './utils/objectUniforms';
+
+import { CausticsPass } from './effects/CausticsPass';
+import { RipplePass, RippleDrop, MAX_RIPPLE_DROPS } from './effects/RipplePass';
+import { AccumulationPass, MAX_ACCUMULATED_FRAMES, getFrameJitter } from './effects/AccumulationPass';
+import { OutputPass } from './effects/OutputPass';
+
 import { vertexShaderSource } from './shaders/vertex.glsl';
-import { fragmentShaderSource } from './shaders/fragment.glsl';
+import { getFragmentShaderSource } from './shaders/fragment.glsl';
 
 const DEFAULT_CONFIG: Required<PhysicsGlassConfig> = {
   shape: 'sphere',
   size: 0.15,
+  rotation: 0,
   refractionIndex: 1.5,
   dispersion: 0.03,
-  thickness: 0.3,
+  thickness: 0.08,
+  spectralSamples: 3,
+  absorptionColor: [1, 1, 1],
+  absorptionDensity: 0,
+  thinFilm: null,
+  backdrop: null,
+  polarization: 'unpolarized',
+  roughness: 0,
+  roughnessMap: '',
+  prism: {
+    apexAngle: 60,
+    rotation: 0
+  },
+  shapeDimensions: {
+    exponent: 4
+  },
+  customShape: null,
+  primaryObject: true,
+  objects: [],
+  backgroundDistance: 0.25,
   backgroundPattern: 'stripes',
+  patterns: {},
+  shaderHooks: null,
   backgroundTexture: '',
+  backgroundFit: 'fill',
+  camera: {
+    type: 'orthographic',
+    position: [0.5, 0.5, 2.0]
+  },
+  lights: [
+    { type: 'directional', direction: [0.5, 0.5, 1.0], color: [1, 1, 1], intensity: 1.0 }
+  ],
+  environment: {
+    intensity: 1.0,
+    fromBackground: false
+  },
+  caustics: {
+    enabled: false,
+    intensity: 1.0,
+    resolution: 192
+  },
+  toneMapping: 'none',
+  exposure: 1,
   mouse: {
     enabled: true,
     followCursor: true,
@@ -44,13 +190,16 @@ const DEFAULT_CONFIG: Required<PhysicsGlassConfig> = {
   animation: {
     enabled: true,
     speed: 1.0,
-    surfaceRipples: true
+    surfaceRipples: false,
+    rippleDamping: 0.01,
+    rippleWaveSpeed: 0.5
   },
   performance: {
     pixelRatio: window.devicePixelRatio || 1,
     antialias: true,
     preserveDrawingBuffer: false,
-    premultipliedAlpha: false
+    premultipliedAlpha: false,
+    quality: 'medium'
   },
   onReady: () => {},
   onError: () => {},
@@ -58,6 +207,42 @@ const DEFAULT_CONFIG: Required<PhysicsGlassConfig> = {
   onMaterialChange: () => {}
 };
 
+/**
+ * Ripple strength injected by pointer movement and clicks
+ */
+const POINTER_RIPPLE_STRENGTH = 0.03;
+const CLICK_RIPPLE_STRENGTH = 0.3;
+
+/**
+ * Drops waiting for the simulation are capped while it is not stepping
+ */
+const MAX_QUEUED_DROPS = MAX_RIPPLE_DROPS * 8;
+
+/**
+ * Background element still being uploaded: every frame in dynamic mode, or
+ * until a static element has been uploaded once
+ */
+interface BackgroundFollower {
+  element: BackgroundElement;
+  texture: DynamicTexture;
+  dynamic: boolean;
+}
+
+/**
+ * Glass program of one variant, with the fragment source it is cached by
+ */
+interface GlassProgram extends CompiledProgram {
+  source: string;
+}
+
+const TONE_MAPPINGS: ToneMapping[] = ['none', 'reinhard', 'aces'];
+
+const QUALITY_PRESETS: Record<QualityPreset, Required<QualityConfig>> = {
+  low: { edgeAntialiasing: false, samples: 1, temporalAccumulation: false },
+  medium: { edgeAntialiasing: true, samples: 1, temporalAccumulation: true },
+  high: { edgeAntialiasing: true, samples: 4, temporalAccumulation: true }
+};
+
 export class PhysicsGlass implements PhysicsGlassAPI {
   private canvas: HTMLCanvasElement;
   private config: Required<PhysicsGlassConfig>;
@@ -67,8 +252,41 @@ export class PhysicsGlass implements PhysicsGlassAPI {
   private time = 0;
   private mousePos = { x: 0.5, y: 0.5 };
   private uniforms: ShaderUniforms;
+  private dispersionModel: DispersionModel | null = null;
   private cleanupContextLoss?: () => void;
   private vertexBuffer?: WebGLBuffer;
+  private quadVertexArray: WebGLVertexArrayObject | null = null;
+  private objectBuffer: { buffer: WebGLBuffer; stride: number } | null = null;
+  private capabilities: RendererCapabilities | null = null;
+  private causticsPass: CausticsPass | null = null;
+  private ripplePass: RipplePass | null = null;
+  private rippleDrops: RippleDrop[] = [];
+  private sceneLayers: RenderTarget[] = [];
+  private sceneLayerFormat: TextureFormat | undefined;
+  private glassPrograms = new Map<string, GlassProgram>();
+  private glassVariant: ShaderVariant | null = null;
+  private failedGlassVariants = new Set<string>();
+  private quality: Required<QualityConfig> = QUALITY_PRESETS.medium;
+  private accumulationPass: AccumulationPass | null = null;
+  private outputPass: OutputPass | null = null;
+  private hdrTarget: RenderTarget | null = null;
+  private halfFloatFormat: TextureFormat | null | undefined;
+  private accumulatedFrames = 0;
+  private sceneSignature = '';
+  private sceneTime = 0;
+  private backgroundFollower: BackgroundFollower | null = null;
+  private backgroundSize: [number, number] = [1, 1];
+  private backgroundWraps = false;
+  private backdropElement: HTMLElement | null = null;
+  private backdropSnapshot: HTMLImageElement | null = null;
+  private backdropCanvas: HTMLCanvasElement | null = null;
+  private backdropCapture = 0;
+  private backdropUpload: Promise<void> | null = null;
+  private backdropStale = false;
+  private backgroundBeforeBackdrop: { pattern: BackgroundPattern; texture: BackgroundSource | BackgroundTextureConfig } | null = null;
+  private cleanupBackdrop?: () => void;
+  private nextObjectId = 1;
+  private nextLightId = 1;
 
   constructor(canvas: HTMLCanvasElement | string, config: PhysicsGlassConfig = {}) {
     // Get canvas element
@@ -97,12 +315,64 @@ export class PhysicsGlass implements PhysicsGlassAPI {
       resolution: [this.canvas.width, this.canvas.height],
       mousePos: [this.config.mouse.centerX!, this.config.mouse.centerY!],
       refractionIndex: this.config.refractionIndex,
-      dispersion: this.config.dispersion,
+      dispersionModel: 0,
+      dispersionB: [0, 0, 0],
+      dispersionC: [0, 0, 0],
+      spectralSamples: this.config.spectralSamples,
+      absorptionColor: this.config.absorptionColor,
+      absorptionDensity: this.config.absorptionDensity,
+      ...getThinFilmUniforms(this.config.thinFilm),
+      polarizationMode: 0,
+      polarizerAngle: 0,
+      toneMapping: 0,
+      exposure: this.config.exposure,
+      linearOutput: 0,
+      pixelSamples: 1,
+      pixelJitter: [0, 0],
+      edgeAntialiasing: 0,
+      roughness: this.config.roughness,
+      hasRoughnessMap: 0,
+      environmentType: 0,
+      environmentIntensity: this.config.environment.intensity ?? 1.0,
+      causticsIntensity: 0,
+      prismApexAngle: 0,
+      prismRotation: 0,
+      shapeSize: [0, 0],
+      cornerRadius: 0,
+      superellipseExponent: 4,
+      tubeRadius: 0,
+      objectRotation: getRotationMatrix(this.config.rotation),
+      cameraType: 0,
+      cameraPosition: [0.5, 0.5, 2.0],
+      cameraTanHalfFov: 0.25,
+      rippleStrength: 0,
+      backgroundDistance: this.config.backgroundDistance,
+      lightCount: 0,
+      lightTypes: new Float32Array(0),
+      lightVectors: new Float32Array(0),
+      lightColors: new Float32Array(0),
+      lightRadii: new Float32Array(0),
       thickness: this.config.thickness,
       glassSize: this.config.size,
-      glassShape: this.getShapeIndex(this.config.shape),
-      backgroundPattern: this.getPatternIndex(this.config.backgroundPattern)
+      glassShape: getShapeIndex(this.config.shape),
+      backgroundPattern: getPatternIndex(this.config.backgroundPattern, this.config.patterns),
+      backgroundTransform: [1, 1, 0, 0],
+      backgroundWrap: 0,
+      backgroundDecoded: 0
     };
+    this.updateDispersionUniforms();
+    this.setPrism(this.config.prism);
+    this.updateShapeUniforms();
+    this.setCamera(this.config.camera);
+    this.setPolarization(this.config.polarization);
+    this.setToneMapping(this.config.toneMapping);
+    this.setQuality(this.config.performance.quality ?? 'medium');
+    this.setLights(this.config.lights);
+
+    // Scene objects are validated as they are added
+    const objects = this.config.objects;
+    this.config.objects = [];
+    objects.forEach((object) => this.addObject(object));
 
     // Initialize
     this.init();
@@ -122,6 +392,63 @@ export class PhysicsGlass implements PhysicsGlassAPI {
         ERROR_CODES.INVALID_CONFIGURATION
       );
     }
+
+    if (this.config.spectralSamples < 3 || this.config.spectralSamples > 16) {
+      throw new PhysicsGlassError(
+        'Spectral samples must be between 3 and 16',
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (this.config.roughness < 0 || this.config.roughness > 1) {
+      throw new PhysicsGlassError(
+        'Roughness must be between 0 and 1',
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (this.config.thickness <= 0 || this.config.backgroundDistance < 0) {
+      throw new PhysicsGlassError(
+        'Thickness must be positive and background distance must not be negative',
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (this.config.absorptionDensity < 0) {
+      throw new PhysicsGlassError(
+        'Absorption density must not be negative',
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (this.config.thinFilm) {
+      validateThinFilm(this.config.thinFilm);
+    }
+
+    const { polarization } = this.config;
+    if (typeof polarization !== 'number' && ['unpolarized', 's', 'p'].indexOf(polarization) < 0) {
+      throw new PhysicsGlassError(
+        `Unknown polarization: ${polarization}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    this.validateCustomUniforms(this.config.patterns, this.config.shaderHooks);
+    validateBackgroundFit(this.config.backgroundFit);
+
+    if (TONE_MAPPINGS.indexOf(this.config.toneMapping) < 0) {
+      throw new PhysicsGlassError(
+        `Unknown tone mapping: ${this.config.toneMapping}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (this.config.exposure < 0) {
+      throw new PhysicsGlassError(
+        'Exposure must not be negative',
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
   }
 
   private async init(): Promise<void> {
@@ -136,6 +463,10 @@ export class PhysicsGlass implements PhysicsGlassAPI {
       await this.setupWebGL();
       this.setupCanvas();
       this.setupEventListeners();
+
+      if (this.config.backdrop) {
+        await this.setBackdrop(this.config.backdrop);
+      }
       
       if (this.config.animation.enabled) {
         this.startAnimation();
@@ -150,41 +481,59 @@ export class PhysicsGlass implements PhysicsGlassAPI {
 
   private async setupWebGL(): Promise<void> {
     const gl = getWebGLContext(this.canvas);
-    
-    // Create shaders
-    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
-    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
-    
-    // Create program
-    const program = createProgram(gl, vertexShader, fragmentShader);
+    const variant = getShaderVariant(this.uniforms, false);
+    const glassProgram = this.createGlassProgram(
+      gl,
+      this.config.patterns,
+      this.config.shaderHooks,
+      variant
+    );
+    this.glassPrograms.set(getVariantKey(variant), glassProgram);
+    this.glassVariant = variant;
+    const { program, positionLocation, uniformLocations } = glassProgram;
     gl.useProgram(program);
 
-    // Get uniform locations
-    const uniformNames = [
-      'u_time', 'u_resolution', 'u_mousePos', 'u_refractionIndex',
-      'u_dispersion', 'u_thickness', 'u_glassSize', 'u_glassShape',
-      'u_backgroundPattern', 'u_backgroundTexture'
-    ];
-    const uniformLocations = getUniformLocations(gl, program, uniformNames);
-
     // Create vertex buffer
     this.vertexBuffer = createQuadBuffer(gl);
     
     // Set up vertex attributes
-    const positionLocation = gl.getAttribLocation(program, 'a_position');
     gl.enableVertexAttribArray(positionLocation);
     gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
 
+    // WebGL2 draws the quad from a vertex array and reads per-object
+    // uniforms from a uniform buffer
+    if (isWebGL2(gl)) {
+      this.quadVertexArray = createQuadVertexArray(gl, this.vertexBuffer);
+      const buffer = gl.createBuffer();
+      this.objectBuffer = buffer && { buffer, stride: getObjectBlockStride(gl) };
+    }
+    this.capabilities = getRendererCapabilities(gl);
+
     // Create background texture
-    let backgroundTexture: WebGLTexture;
-    if (this.config.backgroundTexture) {
-      if (typeof this.config.backgroundTexture === 'string') {
-        backgroundTexture = await loadImageTexture(gl, this.config.backgroundTexture);
+    const background = await this.createBackgroundTexture(gl, this.config.backgroundTexture);
+    const backgroundTexture = background.texture;
+    this.setBackgroundFollower(background.follower);
+    this.uniforms.backgroundDecoded = getSrgbTextureFormat(gl) === gl.RGBA ? 0 : 1;
+
+    // Create optional roughness map
+    let roughnessMap: WebGLTexture | null = null;
+    if (this.config.roughnessMap) {
+      if (typeof this.config.roughnessMap === 'string') {
+        roughnessMap = await loadImageTexture(gl, this.config.roughnessMap);
       } else {
-        backgroundTexture = createTextureFromElement(gl, this.config.backgroundTexture);
+        roughnessMap = createTextureFromElement(gl, this.config.roughnessMap);
       }
-    } else {
-      backgroundTexture = createDefaultTexture(gl);
+    }
+    this.uniforms.hasRoughnessMap = roughnessMap ? 1 : 0;
+
+    // Create environment map
+    const environmentMap = await this.createEnvironmentMap(gl, this.config.environment);
+
+    // Create custom shape height field
+    let customShapeMap: WebGLTexture | null = null;
+    if (this.config.customShape) {
+      const field = await createHeightField(this.config.customShape);
+      customShapeMap = createHeightFieldTexture(gl, field);
     }
 
     // Set up WebGL state
@@ -196,9 +545,154 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     this.webglState = {
       gl,
       program,
+      positionLocation,
       uniformLocations,
-      backgroundTexture
+      backgroundTexture,
+      roughnessMap,
+      environmentMap,
+      customShapeMap
     };
+    this.updateBackgroundSampling(background.size);
+  }
+
+  /**
+   * Custom uniforms of patterns and shader hooks share one namespace
+   */
+  private validateCustomUniforms(
+    patterns: Record<string, PatternDefinition>,
+    hooks: ShaderHooks | null
+  ): void {
+    const names = new Set<string>();
+    validatePatterns(patterns, names);
+    validateUniforms(hooks?.uniforms || {}, 'shader hooks', names);
+  }
+
+  /**
+   * Glass program of a variant with the registered background patterns and
+   * the shader hooks, compiled unless the shared cache already has it
+   */
+  private createGlassProgram(
+    gl: WebGLRenderingContext,
+    patterns: Record<string, PatternDefinition>,
+    hooks: ShaderHooks | null,
+    variant: ShaderVariant
+  ): GlassProgram {
+    const { uniforms = {}, onBeforeCompile, ...sources } = hooks || {};
+    const declarations = [...getUniformDeclarations(uniforms), sources.declarations || ''].join('\n');
+    const defines = [getVariantDefines(variant)];
+    if (isWebGL2(gl)) {
+      defines.push('#define OBJECT_UNIFORM_BLOCK');
+    }
+    let fragmentSource = getFragmentShaderSource({
+      defines: defines.join('\n'),
+      patterns: getPatternSource(patterns),
+      hooks: { ...sources, declarations }
+    });
+    if (onBeforeCompile) {
+      fragmentSource = onBeforeCompile(fragmentSource);
+    }
+
+    const compiled = acquireProgram(gl, fragmentSource, () => {
+      const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+      const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+      const program = createProgram(gl, vertexShader, fragmentShader);
+      if (isWebGL2(gl)) {
+        const blockIndex = gl.getUniformBlockIndex(program, OBJECT_BLOCK_NAME);
+        if (blockIndex !== gl.INVALID_INDEX) {
+          gl.uniformBlockBinding(program, blockIndex, OBJECT_BLOCK_BINDING);
+        }
+      }
+      return {
+        program,
+        positionLocation: gl.getAttribLocation(program, 'a_position'),
+        uniformLocations: getUniformLocations(gl, program, this.getGlassUniformNames(patterns, uniforms))
+      };
+    });
+    return { ...compiled, source: fragmentSource };
+  }
+
+  private getGlassUniformNames(
+    patterns: Record<string, PatternDefinition>,
+    hookUniforms: Record<string, UniformValue>
+  ): string[] {
+    return [
+      'u_time', 'u_resolution', 'u_mousePos', 'u_refractionIndex', 'u_cameraType',
+      'u_cameraPosition', 'u_cameraTanHalfFov',
+      'u_dispersionModel', 'u_dispersionB', 'u_dispersionC', 'u_spectralSamples',
+      'u_absorptionColor', 'u_absorptionDensity', 'u_filmThickness', 'u_filmIndex',
+      'u_filmVariation', 'u_filmFlowSpeed', 'u_polarizationMode', 'u_polarizerAngle',
+      'u_toneMapping', 'u_exposure', 'u_linearOutput', 'u_pixelSamples', 'u_pixelJitter',
+      'u_edgeAntialiasing', 'u_roughness', 'u_roughnessMap',
+      'u_environmentIntensity', 'u_environmentMap', 'u_environmentCube',
+      'u_causticsIntensity', 'u_causticsMap', 'u_prismApexAngle', 'u_prismRotation',
+      'u_shapeSize', 'u_cornerRadius', 'u_superellipseExponent', 'u_tubeRadius',
+      'u_customShape', 'u_objectRotation', 'u_refractSceneLayer',
+      'u_sceneLayer', 'u_lightCount', 'u_lightType', 'u_lightVector', 'u_lightColor',
+      'u_lightRadius', 'u_rippleMap', 'u_rippleStrength', 'u_backgroundDistance', 'u_thickness', 'u_glassSize',
+      'u_backgroundTexture', 'u_backgroundTransform', 'u_backgroundWrap', 'u_backgroundDecoded',
+      ...getPatternUniformNames(patterns),
+      ...Object.keys(hookUniforms)
+    ];
+  }
+
+  /**
+   * Switch to the program compiled for a variant, compiling it on first use.
+   * A variant that fails to compile is reported once and drawn with the
+   * current program instead.
+   */
+  private useGlassVariant(variant: ShaderVariant): void {
+    if (!this.webglState) return;
+
+    const key = getVariantKey(variant);
+    let glassProgram = this.glassPrograms.get(key);
+    if (!glassProgram) {
+      if (this.failedGlassVariants.has(key)) return;
+
+      try {
+        glassProgram = this.createGlassProgram(
+          this.webglState.gl,
+          this.config.patterns,
+          this.config.shaderHooks,
+          variant
+        );
+      } catch (error) {
+        this.failedGlassVariants.add(key);
+        this.config.onError(error as Error);
+        return;
+      }
+      this.glassPrograms.set(key, glassProgram);
+    }
+
+    this.glassVariant = variant;
+    if (glassProgram.program !== this.webglState.program) {
+      this.setGlassProgram(glassProgram);
+    }
+  }
+
+  /**
+   * Swap to the program for the primary object's current settings, so a
+   * new variant compiles when it is selected rather than mid-frame
+   */
+  private updateGlassVariant(): void {
+    this.useGlassVariant(getShaderVariant(this.uniforms, !!this.glassVariant?.sceneLayer));
+  }
+
+  private setGlassProgram({ program, positionLocation, uniformLocations }: GlassProgram): void {
+    if (!this.webglState) return;
+
+    this.webglState.program = program;
+    this.webglState.positionLocation = positionLocation;
+    this.webglState.uniformLocations = uniformLocations;
+    this.restoreGlassProgram();
+  }
+
+  private releaseGlassPrograms(): void {
+    if (!this.webglState) return;
+
+    const { gl } = this.webglState;
+    this.glassPrograms.forEach(({ source }) => releaseProgram(gl, source));
+    this.glassPrograms.clear();
+    this.failedGlassVariants.clear();
   }
 
   private setupCanvas(): void {
@@ -211,6 +705,7 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     this.canvas.style.height = rect.height + 'px';
 
     this.uniforms.resolution = [this.canvas.width, this.canvas.height];
+    this.updateBackgroundFit();
 
     if (this.webglState) {
       this.webglState.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
@@ -218,10 +713,11 @@ export class PhysicsGlass implements PhysicsGlassAPI {
   }
 
   private setupEventListeners(): void {
-    // Mouse tracking
-    if (this.config.mouse.enabled && this.config.mouse.followCursor) {
+    // Mouse tracking and ripples
+    if (this.config.mouse.enabled) {
       this.canvas.addEventListener('mousemove', this.handleMouseMove);
       this.canvas.addEventListener('mouseleave', this.handleMouseLeave);
+      this.canvas.addEventListener('mousedown', this.handleMouseDown);
     }
 
     // Resize handling
@@ -236,15 +732,32 @@ export class PhysicsGlass implements PhysicsGlassAPI {
   }
 
   private handleMouseMove = (event: MouseEvent): void => {
+    const [x, y] = this.getCanvasPosition(event);
+    this.disturb(x, y, POINTER_RIPPLE_STRENGTH);
+
     if (!this.config.mouse.followCursor) return;
 
-    const rect = this.canvas.getBoundingClientRect();
-    this.mousePos.x = (event.clientX - rect.left) / rect.width;
-    this.mousePos.y = 1.0 - (event.clientY - rect.top) / rect.height;
+    this.mousePos.x = x;
+    this.mousePos.y = y;
     this.uniforms.mousePos = [this.mousePos.x, this.mousePos.y];
   };
 
+  private handleMouseDown = (event: MouseEvent): void => {
+    const [x, y] = this.getCanvasPosition(event);
+    this.disturb(x, y, CLICK_RIPPLE_STRENGTH);
+  };
+
+  private getCanvasPosition(event: MouseEvent): [number, number] {
+    const rect = this.canvas.getBoundingClientRect();
+    return [
+      (event.clientX - rect.left) / rect.width,
+      1.0 - (event.clientY - rect.top) / rect.height
+    ];
+  }
+
   private handleMouseLeave = (): void => {
+    if (!this.config.mouse.followCursor) return;
+
     this.mousePos.x = this.config.mouse.centerX!;
     this.mousePos.y = this.config.mouse.centerY!;
     this.uniforms.mousePos = [this.mousePos.x, this.mousePos.y];
@@ -256,6 +769,22 @@ export class PhysicsGlass implements PhysicsGlassAPI {
 
   private handleContextLoss = (): void => {
     this.stopAnimation();
+    // Offscreen resources die with the context and are rebuilt on demand
+    this.causticsPass = null;
+    this.ripplePass = null;
+    this.accumulationPass = null;
+    this.outputPass = null;
+    this.hdrTarget = null;
+    this.halfFloatFormat = undefined;
+    this.setBackgroundFollower(null);
+    this.sceneLayers = [];
+    this.glassPrograms.clear();
+    this.failedGlassVariants.clear();
+    this.quadVertexArray = null;
+    this.objectBuffer = null;
+    if (this.webglState) {
+      clearProgramCache(this.webglState.gl);
+    }
   };
 
   private handleContextRestored = (): void => {
@@ -266,30 +795,123 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     });
   };
 
-  private getShapeIndex(shape: GlassShape): number {
-    const shapes = ['sphere', 'cylinder', 'lens', 'prism', 'flat'];
-    return shapes.indexOf(shape);
+  /**
+   * Create the environment texture and select how the shader samples it:
+   * 0 constant sky color, 1 equirectangular, 2 cubemap, 3 background
+   */
+  private async createEnvironmentMap(
+    gl: WebGLRenderingContext,
+    environment: EnvironmentConfig
+  ): Promise<WebGLTexture | null> {
+    let texture: WebGLTexture | null = null;
+    let type = environment.fromBackground ? 3 : 0;
+
+    if (Array.isArray(environment.source)) {
+      texture = await loadCubemapTexture(gl, environment.source);
+      type = 2;
+    } else if (typeof environment.source === 'string') {
+      texture = await loadImageTexture(gl, environment.source);
+      type = 1;
+    } else if (environment.source) {
+      texture = createTextureFromElement(gl, environment.source);
+      type = 1;
+    }
+
+    this.uniforms.environmentType = type;
+    return texture;
+  }
+
+  private updateDispersionUniforms(): void {
+    const model = this.dispersionModel ||
+      createLinearDispersionModel(this.config.refractionIndex, this.config.dispersion);
+    const { model: modelIndex, b, c } = getDispersionUniforms(model);
+
+    this.uniforms.refractionIndex = this.config.refractionIndex;
+    this.uniforms.dispersionModel = modelIndex;
+    this.uniforms.dispersionB = b;
+    this.uniforms.dispersionC = c;
   }
 
-  private getPatternIndex(pattern: BackgroundPattern): number {
-    const patterns = ['stripes', 'grid', 'circles', 'texture'];
-    return patterns.indexOf(pattern);
+  private updateShapeUniforms(): void {
+    const { size, shape, shapeDimensions } = this.config;
+    Object.assign(this.uniforms, getShapeUniforms(shape, size, shapeDimensions));
   }
 
-  private updateUniforms(): void {
+  /**
+   * Glass objects in drawing order, back to front. Sorting is stable, so
+   * objects with the same zIndex keep the order they were added in.
+   */
+  private getLayers(): GlassLayer[] {
+    const layers: GlassLayer[] = [];
+
+    if (this.config.primaryObject) {
+      layers.push({ uniforms: this.uniforms, zIndex: 0, refractObjectsBehind: false });
+    }
+
+    this.config.objects.forEach((object) => {
+      layers.push({
+        uniforms: getObjectUniforms(this.uniforms, this.config, object),
+        zIndex: object.zIndex ?? 0,
+        refractObjectsBehind: object.refractObjectsBehind ?? true
+      });
+    });
+
+    return layers.sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  private updateUniforms(uniforms: ShaderUniforms): void {
     if (!this.webglState) return;
 
     const { gl, uniformLocations } = this.webglState;
 
-    gl.uniform1f(uniformLocations.u_time, this.uniforms.time);
-    gl.uniform2f(uniformLocations.u_resolution, ...this.uniforms.resolution);
-    gl.uniform2f(uniformLocations.u_mousePos, ...this.uniforms.mousePos);
-    gl.uniform1f(uniformLocations.u_refractionIndex, this.uniforms.refractionIndex);
-    gl.uniform1f(uniformLocations.u_dispersion, this.uniforms.dispersion);
-    gl.uniform1f(uniformLocations.u_thickness, this.uniforms.thickness);
-    gl.uniform1f(uniformLocations.u_glassSize, this.uniforms.glassSize);
-    gl.uniform1f(uniformLocations.u_glassShape, this.uniforms.glassShape);
-    gl.uniform1f(uniformLocations.u_backgroundPattern, this.uniforms.backgroundPattern);
+    gl.uniform1f(uniformLocations.u_time, uniforms.time);
+    gl.uniform2f(uniformLocations.u_resolution, ...uniforms.resolution);
+    gl.uniform2f(uniformLocations.u_mousePos, ...uniforms.mousePos);
+    gl.uniform1f(uniformLocations.u_refractionIndex, uniforms.refractionIndex);
+    gl.uniform1f(uniformLocations.u_dispersionModel, uniforms.dispersionModel);
+    gl.uniform3f(uniformLocations.u_dispersionB, ...uniforms.dispersionB);
+    gl.uniform3f(uniformLocations.u_dispersionC, ...uniforms.dispersionC);
+    gl.uniform1f(uniformLocations.u_spectralSamples, uniforms.spectralSamples);
+    gl.uniform3f(uniformLocations.u_absorptionColor, ...uniforms.absorptionColor);
+    gl.uniform1f(uniformLocations.u_absorptionDensity, uniforms.absorptionDensity);
+    gl.uniform1f(uniformLocations.u_filmThickness, uniforms.filmThickness);
+    gl.uniform1f(uniformLocations.u_filmIndex, uniforms.filmIndex);
+    gl.uniform1f(uniformLocations.u_filmVariation, uniforms.filmVariation);
+    gl.uniform1f(uniformLocations.u_filmFlowSpeed, uniforms.filmFlowSpeed);
+    gl.uniform1f(uniformLocations.u_polarizationMode, uniforms.polarizationMode);
+    gl.uniform1f(uniformLocations.u_polarizerAngle, uniforms.polarizerAngle);
+    gl.uniform1f(uniformLocations.u_toneMapping, uniforms.toneMapping);
+    gl.uniform1f(uniformLocations.u_exposure, uniforms.exposure);
+    gl.uniform1f(uniformLocations.u_linearOutput, uniforms.linearOutput);
+    gl.uniform1f(uniformLocations.u_pixelSamples, uniforms.pixelSamples);
+    gl.uniform2f(uniformLocations.u_pixelJitter, ...uniforms.pixelJitter);
+    gl.uniform1f(uniformLocations.u_edgeAntialiasing, uniforms.edgeAntialiasing);
+    gl.uniform1f(uniformLocations.u_roughness, uniforms.roughness);
+    gl.uniform1f(uniformLocations.u_environmentIntensity, uniforms.environmentIntensity);
+    gl.uniform1f(uniformLocations.u_causticsIntensity, uniforms.causticsIntensity);
+    gl.uniform1f(uniformLocations.u_prismApexAngle, uniforms.prismApexAngle);
+    gl.uniform1f(uniformLocations.u_prismRotation, uniforms.prismRotation);
+    gl.uniform2f(uniformLocations.u_shapeSize, ...uniforms.shapeSize);
+    gl.uniform1f(uniformLocations.u_cornerRadius, uniforms.cornerRadius);
+    gl.uniform1f(uniformLocations.u_superellipseExponent, uniforms.superellipseExponent);
+    gl.uniform1f(uniformLocations.u_tubeRadius, uniforms.tubeRadius);
+    gl.uniformMatrix3fv(uniformLocations.u_objectRotation, false, uniforms.objectRotation);
+    gl.uniform1f(uniformLocations.u_cameraType, uniforms.cameraType);
+    gl.uniform3f(uniformLocations.u_cameraPosition, ...uniforms.cameraPosition);
+    gl.uniform1f(uniformLocations.u_cameraTanHalfFov, uniforms.cameraTanHalfFov);
+    gl.uniform1f(uniformLocations.u_rippleStrength, uniforms.rippleStrength);
+    gl.uniform1f(uniformLocations.u_backgroundDistance, uniforms.backgroundDistance);
+    gl.uniform1f(uniformLocations.u_lightCount, uniforms.lightCount);
+    gl.uniform1fv(uniformLocations.u_lightType, uniforms.lightTypes);
+    gl.uniform3fv(uniformLocations.u_lightVector, uniforms.lightVectors);
+    gl.uniform3fv(uniformLocations.u_lightColor, uniforms.lightColors);
+    gl.uniform1fv(uniformLocations.u_lightRadius, uniforms.lightRadii);
+    gl.uniform1f(uniformLocations.u_thickness, uniforms.thickness);
+    gl.uniform1f(uniformLocations.u_glassSize, uniforms.glassSize);
+    gl.uniform4f(uniformLocations.u_backgroundTransform, ...uniforms.backgroundTransform);
+    gl.uniform1f(uniformLocations.u_backgroundWrap, uniforms.backgroundWrap);
+    gl.uniform1f(uniformLocations.u_backgroundDecoded, uniforms.backgroundDecoded);
+    this.updateCustomUniforms();
 
     // Bind texture
     if (this.webglState.backgroundTexture) {
@@ -297,91 +919,1022 @@ export class PhysicsGlass implements PhysicsGlassAPI {
       gl.bindTexture(gl.TEXTURE_2D, this.webglState.backgroundTexture);
       gl.uniform1i(uniformLocations.u_backgroundTexture, 0);
     }
+
+    if (this.webglState.roughnessMap) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.webglState.roughnessMap);
+    }
+
+    if (this.webglState.environmentMap) {
+      const isCubemap = uniforms.environmentType === 2;
+      gl.activeTexture(isCubemap ? gl.TEXTURE3 : gl.TEXTURE2);
+      gl.bindTexture(isCubemap ? gl.TEXTURE_CUBE_MAP : gl.TEXTURE_2D, this.webglState.environmentMap);
+    }
+
+    if (this.webglState.customShapeMap) {
+      gl.activeTexture(gl.TEXTURE5);
+      gl.bindTexture(gl.TEXTURE_2D, this.webglState.customShapeMap);
+    }
+
+    const rippleTexture = this.ripplePass && this.ripplePass.getTexture();
+    if (rippleTexture) {
+      gl.activeTexture(gl.TEXTURE7);
+      gl.bindTexture(gl.TEXTURE_2D, rippleTexture);
+    }
+
+    const causticsTexture = this.causticsPass && this.causticsPass.getTexture();
+    if (causticsTexture) {
+      gl.activeTexture(gl.TEXTURE4);
+      gl.bindTexture(gl.TEXTURE_2D, causticsTexture);
+    }
+
+    // Samplers of different types must never share a texture unit
+    gl.uniform1i(uniformLocations.u_roughnessMap, 1);
+    gl.uniform1i(uniformLocations.u_environmentMap, 2);
+    gl.uniform1i(uniformLocations.u_environmentCube, 3);
+    gl.uniform1i(uniformLocations.u_causticsMap, 4);
+    gl.uniform1i(uniformLocations.u_customShape, 5);
+    gl.uniform1i(uniformLocations.u_sceneLayer, 6);
+    gl.uniform1i(uniformLocations.u_rippleMap, 7);
+  }
+
+  private updateCustomUniforms(): void {
+    if (!this.webglState) return;
+
+    const { gl, uniformLocations } = this.webglState;
+    Object.values(this.config.patterns).forEach((pattern) => {
+      setUniformValues(gl, uniformLocations, pattern.uniforms || {});
+    });
+    setUniformValues(gl, uniformLocations, this.config.shaderHooks?.uniforms || {});
   }
 
   private render = (): void => {
     if (this.isDestroyed || !this.webglState) return;
+    this.animationId = null;
 
-    this.time += 0.016 * this.config.animation.speed;
-    this.uniforms.time = this.time;
+    if (this.config.animation.enabled) {
+      this.time += 0.016 * this.config.animation.speed;
+      this.uniforms.time = this.time;
+    }
 
-    const { gl } = this.webglState;
-    gl.clear(gl.COLOR_BUFFER_BIT);
-    this.updateUniforms();
-    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    this.updateBackground();
 
-    if (this.config.animation.enabled) {
+    const accumulate = this.quality.temporalAccumulation && this.updateAccumulation();
+    if (!accumulate || this.accumulatedFrames < MAX_ACCUMULATED_FRAMES) {
+      this.renderFrame(accumulate);
+    }
+
+    // Static scenes keep refining until the average has converged
+    if (this.config.animation.enabled || (accumulate && this.accumulatedFrames < MAX_ACCUMULATED_FRAMES)) {
       this.animationId = requestAnimationFrame(this.render);
     }
   };
 
+  private renderFrame(accumulate: boolean): void {
+    if (!this.webglState) return;
+
+    const { gl } = this.webglState;
+    const hdrFormat = this.getHDRFormat();
+    this.uniforms.pixelJitter = accumulate ? getFrameJitter(this.accumulatedFrames) : [0, 0];
+    this.uniforms.linearOutput = hdrFormat ? 1 : 0;
+
+    this.renderRipples();
+
+    // Set before the layers copy it for each object
+    const { caustics } = this.config;
+    this.uniforms.causticsIntensity = caustics.enabled ? caustics.intensity ?? 1.0 : 0;
+
+    const layers = this.getLayers();
+    this.renderCaustics(layers);
+
+    if (!accumulate && !hdrFormat) {
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      this.renderLayers(layers, null);
+      return;
+    }
+
+    if (!this.outputPass) {
+      this.outputPass = new OutputPass(gl);
+    }
+
+    if (!accumulate) {
+      const target = this.resizeHDRTarget(hdrFormat!);
+      this.renderLayers(layers, target, hdrFormat!);
+      this.outputPass.draw(target.texture, { premultiplied: false, linear: true }, this.uniforms);
+      this.restoreGlassProgram();
+      return;
+    }
+
+    if (!this.accumulationPass) {
+      this.accumulationPass = new AccumulationPass(gl);
+    }
+    this.accumulationPass.resize(this.canvas.width, this.canvas.height, this.getHalfFloatFormat()!);
+    this.renderLayers(layers, this.accumulationPass.getFrameTarget(), hdrFormat || undefined);
+    const average = this.accumulationPass.accumulate(this.accumulatedFrames);
+    if (average) {
+      this.outputPass.draw(average, { premultiplied: true, linear: !!hdrFormat }, this.uniforms);
+    }
+    this.accumulatedFrames++;
+
+    this.restoreGlassProgram();
+  }
+
+  /**
+   * Half-float format for offscreen targets, or null when the device can't
+   * render to one. Checked once per context.
+   */
+  private getHalfFloatFormat(): TextureFormat | null {
+    if (!this.webglState) return null;
+
+    if (this.halfFloatFormat === undefined) {
+      this.halfFloatFormat = getHalfFloatFormat(this.webglState.gl);
+    }
+    return this.halfFloatFormat;
+  }
+
+  /**
+   * Half-float format to render in when tone mapping is on, or null to
+   * tone map in the glass shader and draw straight to the canvas
+   */
+  private getHDRFormat(): TextureFormat | null {
+    return this.config.toneMapping === 'none' ? null : this.getHalfFloatFormat();
+  }
+
+  private resizeHDRTarget(format: TextureFormat): RenderTarget {
+    const { gl } = this.webglState!;
+    const { width, height } = this.canvas;
+    const current = this.hdrTarget;
+    if (current && current.width === width && current.height === height) return current;
+
+    if (current) {
+      deleteRenderTarget(gl, current);
+    }
+    this.hdrTarget = createRenderTarget(gl, width, height, format);
+    return this.hdrTarget;
+  }
+
+  /**
+   * Compare everything that affects the image with the previous frame and
+   * restart the average when anything changed. Returns false when the scene
+   * cannot be static, such as while time advances or ripples are simulated,
+   * and on devices without half-float targets to average in. The surface
+   * shimmer follows time, so a running animation is never static.
+   */
+  private updateAccumulation(): boolean {
+    if (this.config.animation.surfaceRipples || !this.getHalfFloatFormat()) return false;
+    if (this.backgroundFollower && this.backgroundFollower.dynamic) return false;
+
+    const { time, pixelJitter, ...uniforms } = this.uniforms;
+    if (time !== this.sceneTime) {
+      this.sceneTime = time;
+      this.sceneSignature = '';
+      return false;
+    }
+
+    const signature = JSON.stringify([uniforms, this.config.objects]);
+    if (signature !== this.sceneSignature) {
+      this.sceneSignature = signature;
+      this.accumulatedFrames = 0;
+    }
+    return true;
+  }
+
+  /**
+   * Restart temporal accumulation after a change the uniforms don't show,
+   * such as a new texture, and render again if the loop has stopped
+   */
+  private invalidateAccumulation(): void {
+    this.sceneSignature = '';
+    if (this.quality.temporalAccumulation && !this.animationId && !this.isDestroyed) {
+      this.animationId = requestAnimationFrame(this.render);
+    }
+  }
+
+  /**
+   * Draw each object over the ones behind it. Every object but the front one
+   * renders into an offscreen layer that the next object composites over and,
+   * optionally, refracts. The front object draws to the output target, or
+   * blends onto the canvas when there is none.
+   */
+  private renderLayers(layers: GlassLayer[], output: RenderTarget | null, format?: TextureFormat): void {
+    if (!this.webglState) return;
+
+    const { gl } = this.webglState;
+    if (layers.length > 1) {
+      this.resizeSceneLayers(format);
+    }
+    this.uploadObjectUniforms(layers);
+
+    layers.forEach((layer, index) => {
+      const isFront = index === layers.length - 1;
+      const target = isFront ? output : this.sceneLayers[index % 2];
+      const behind = index > 0 ? this.sceneLayers[(index - 1) % 2] : null;
+
+      // Offscreen layers keep unblended color so they composite exactly
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+      if (target) {
+        gl.disable(gl.BLEND);
+      } else {
+        gl.enable(gl.BLEND);
+      }
+
+      // Each object draws with the program compiled for its shape and effects
+      this.useGlassVariant(getShaderVariant(layer.uniforms, !!behind));
+      this.updateUniforms(layer.uniforms);
+      gl.activeTexture(gl.TEXTURE6);
+      gl.bindTexture(gl.TEXTURE_2D, behind ? behind.texture : null);
+      gl.uniform1f(this.webglState!.uniformLocations.u_refractSceneLayer, behind && layer.refractObjectsBehind ? 1 : 0);
+      if (isWebGL2(gl) && this.objectBuffer) {
+        const { buffer, stride } = this.objectBuffer;
+        gl.bindBufferRange(gl.UNIFORM_BUFFER, OBJECT_BLOCK_BINDING, buffer, index * stride, OBJECT_BLOCK_SIZE);
+      }
+
+      this.drawGlassQuad();
+    });
+  }
+
+  /**
+   * Upload the per-object uniforms of every layer in one uniform buffer on
+   * WebGL2, where each draw binds its own range
+   */
+  private uploadObjectUniforms(layers: GlassLayer[]): void {
+    const { gl } = this.webglState!;
+    if (!isWebGL2(gl) || !this.objectBuffer) return;
+
+    const { buffer, stride } = this.objectBuffer;
+    const data = packObjectUniforms(layers.map((layer) => layer.uniforms), stride);
+    gl.bindBuffer(gl.UNIFORM_BUFFER, buffer);
+    gl.bufferData(gl.UNIFORM_BUFFER, data, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.UNIFORM_BUFFER, null);
+  }
+
+  private drawGlassQuad(): void {
+    const { gl } = this.webglState!;
+    if (isWebGL2(gl) && this.quadVertexArray) {
+      gl.bindVertexArray(this.quadVertexArray);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      gl.bindVertexArray(null);
+    } else {
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    }
+  }
+
+  /**
+   * Match the two alternating scene layers to the canvas size and the
+   * frame's texel format
+   */
+  private resizeSceneLayers(format?: TextureFormat): void {
+    if (!this.webglState) return;
+
+    const { gl } = this.webglState;
+    const { width, height } = this.canvas;
+    const current = this.sceneLayers[0];
+    if (current && current.width === width && current.height === height && format === this.sceneLayerFormat) {
+      return;
+    }
+
+    this.sceneLayers.forEach((target) => deleteRenderTarget(gl, target));
+    this.sceneLayers = [createRenderTarget(gl, width, height, format), createRenderTarget(gl, width, height, format)];
+    this.sceneLayerFormat = format;
+  }
+
+  private renderRipples(): void {
+    if (!this.webglState) return;
+
+    const { animation } = this.config;
+    if (!animation.surfaceRipples) {
+      this.uniforms.rippleStrength = 0;
+      return;
+    }
+
+    if (!this.ripplePass) {
+      this.ripplePass = new RipplePass(this.webglState.gl);
+    }
+    this.ripplePass.resize(this.canvas.width, this.canvas.height);
+    this.ripplePass.step(this.rippleDrops, {
+      damping: animation.rippleDamping ?? 0.01,
+      waveSpeed: animation.rippleWaveSpeed ?? 0.5
+    });
+    this.uniforms.rippleStrength = 1.0;
+
+    this.restoreGlassProgram();
+  }
+
+  private renderCaustics(layers: GlassLayer[]): void {
+    if (!this.webglState) return;
+
+    const { caustics } = this.config;
+    if (!caustics.enabled) return;
+
+    const { gl } = this.webglState;
+
+    if (!this.causticsPass) {
+      try {
+        // Rays are traced in the vertex shader, which samples the custom shape
+        if (this.capabilities && this.capabilities.vertexTextureUnits === 0) {
+          throw new PhysicsGlassError(
+            'Caustics need texture lookups in vertex shaders, which this device does not support',
+            ERROR_CODES.WEBGL_NOT_SUPPORTED
+          );
+        }
+        this.causticsPass = new CausticsPass(gl, caustics.resolution ?? 192);
+      } catch (error) {
+        // Turn caustics off rather than failing on every frame
+        this.config.caustics.enabled = false;
+        this.uniforms.causticsIntensity = 0;
+        this.config.onError(error as Error);
+        return;
+      }
+    }
+    this.causticsPass.setResolution(caustics.resolution ?? 192);
+    this.causticsPass.resize(this.canvas.width, this.canvas.height);
+    this.causticsPass.render(layers.map((layer) => layer.uniforms), {
+      lightDirection: caustics.lightDirection ??
+        getPrimaryLightDirection(this.config.lights) ?? [0.5, 0.5, 1.0],
+      customShape: this.webglState.customShapeMap,
+      rippleMap: this.uniforms.rippleStrength > 0 && this.ripplePass ? this.ripplePass.getTexture() : null
+    });
+
+    this.restoreGlassProgram();
+  }
+
+  /**
+   * Restore the glass program and its fullscreen quad after an offscreen pass
+   */
+  private restoreGlassProgram(): void {
+    if (!this.webglState) return;
+
+    const { gl, program, positionLocation } = this.webglState;
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer!);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+  }
+
   // Public API methods
   public setShape(shape: GlassShape): void {
     this.config.shape = shape;
-    this.uniforms.glassShape = this.getShapeIndex(shape);
+    this.uniforms.glassShape = getShapeIndex(shape);
+    this.updateShapeUniforms();
+    this.updateGlassVariant();
     this.config.onShapeChange(shape);
   }
 
   public setSize(size: number): void {
     this.config.size = Math.max(0.01, Math.min(1, size));
     this.uniforms.glassSize = this.config.size;
+    this.updateShapeUniforms();
+  }
+
+  public setRotation(rotation: GlassRotation, objectId?: string): void {
+    if (objectId !== undefined) {
+      this.updateObject(objectId, { rotation });
+      return;
+    }
+
+    this.config.rotation = rotation;
+    this.uniforms.objectRotation = getRotationMatrix(rotation);
+  }
+
+  public setCamera(camera: CameraConfig): void {
+    const position = camera.position ?? [0.5, 0.5, 2.0];
+    const distance = Math.max(position[2], 1e-3);
+
+    // Without a field of view the canvas plane exactly fills the view
+    const tanHalfFov = camera.fov !== undefined
+      ? Math.tan((Math.max(1, Math.min(170, camera.fov)) * Math.PI) / 360)
+      : 0.5 / distance;
+
+    this.config.camera = camera;
+    this.uniforms.cameraType = camera.type === 'perspective' ? 1 : 0;
+    this.uniforms.cameraPosition = position;
+    this.uniforms.cameraTanHalfFov = tanHalfFov;
   }
 
   public setRefractionIndex(index: number): void {
     this.config.refractionIndex = Math.max(1, Math.min(3, index));
-    this.uniforms.refractionIndex = this.config.refractionIndex;
+    this.dispersionModel = null;
+    this.updateDispersionUniforms();
   }
 
   public setDispersion(dispersion: number): void {
     this.config.dispersion = Math.max(0, Math.min(0.2, dispersion));
-    this.uniforms.dispersion = this.config.dispersion;
+    this.dispersionModel = null;
+    this.updateDispersionUniforms();
   }
 
   public setThickness(thickness: number): void {
-    this.config.thickness = Math.max(0.1, Math.min(2, thickness));
+    this.config.thickness = Math.max(0.01, Math.min(1, thickness));
     this.uniforms.thickness = this.config.thickness;
   }
 
+  public setSpectralSamples(samples: number): void {
+    this.config.spectralSamples = Math.round(Math.max(3, Math.min(16, samples)));
+    this.uniforms.spectralSamples = this.config.spectralSamples;
+  }
+
+  public setAbsorption(color: [number, number, number], density: number): void {
+    this.config.absorptionColor = color.map(
+      (channel) => Math.max(0, Math.min(1, channel))
+    ) as [number, number, number];
+    this.config.absorptionDensity = Math.max(0, Math.min(50, density));
+    this.uniforms.absorptionColor = this.config.absorptionColor;
+    this.uniforms.absorptionDensity = this.config.absorptionDensity;
+  }
+
+  public setRoughness(roughness: number): void {
+    this.config.roughness = Math.max(0, Math.min(1, roughness));
+    this.uniforms.roughness = this.config.roughness;
+  }
+
+  public async setRoughnessMap(
+    map: HTMLImageElement | HTMLCanvasElement | string | null
+  ): Promise<void> {
+    if (!this.webglState) return;
+
+    try {
+      let newMap: WebGLTexture | null = null;
+
+      if (typeof map === 'string') {
+        newMap = await loadImageTexture(this.webglState.gl, map);
+      } else if (map) {
+        newMap = createTextureFromElement(this.webglState.gl, map);
+      }
+
+      // Clean up old map
+      if (this.webglState.roughnessMap) {
+        this.webglState.gl.deleteTexture(this.webglState.roughnessMap);
+      }
+
+      this.webglState.roughnessMap = newMap;
+      this.uniforms.hasRoughnessMap = newMap ? 1 : 0;
+      this.config.roughnessMap = map || '';
+      this.invalidateAccumulation();
+    } catch (error) {
+      this.config.onError(error as Error);
+    }
+  }
+
+  public setPrism(prism: PrismConfig): void {
+    const apexAngle = Math.max(10, Math.min(120, prism.apexAngle ?? this.config.prism.apexAngle ?? 60));
+    const rotation = prism.rotation ?? this.config.prism.rotation ?? 0;
+
+    this.config.prism = { apexAngle, rotation };
+    this.uniforms.prismApexAngle = (apexAngle * Math.PI) / 180;
+    this.uniforms.prismRotation = (rotation * Math.PI) / 180;
+  }
+
+  public setShapeDimensions(dimensions: ShapeDimensions): void {
+    const next = { ...this.config.shapeDimensions, ...dimensions };
+
+    if (next.exponent !== undefined) {
+      next.exponent = Math.max(2, Math.min(12, next.exponent));
+    }
+
+    this.config.shapeDimensions = next;
+    this.updateShapeUniforms();
+  }
+
+  public async setCustomShape(shape: CustomShapeConfig): Promise<void> {
+    if (!this.webglState) return;
+
+    try {
+      const field = await createHeightField(shape);
+      const newMap = createHeightFieldTexture(this.webglState.gl, field);
+
+      // Clean up old height field
+      if (this.webglState.customShapeMap) {
+        this.webglState.gl.deleteTexture(this.webglState.customShapeMap);
+      }
+
+      this.webglState.customShapeMap = newMap;
+      this.config.customShape = shape;
+      this.invalidateAccumulation();
+      this.setShape('custom');
+    } catch (error) {
+      this.config.onError(error as Error);
+    }
+  }
+
   public setBackgroundPattern(pattern: BackgroundPattern): void {
+    this.uniforms.backgroundPattern = getPatternIndex(pattern, this.config.patterns);
     this.config.backgroundPattern = pattern;
-    this.uniforms.backgroundPattern = this.getPatternIndex(pattern);
+    this.updateGlassVariant();
+  }
+
+  /**
+   * Add a GLSL background pattern, or replace one with the same name, and
+   * recompile the glass program. A pattern that fails to compile throws and
+   * leaves the current program in place.
+   */
+  public registerPattern(
+    name: string,
+    source: string,
+    uniforms: Record<string, UniformValue> = {}
+  ): void {
+    const patterns = { ...this.config.patterns, [name]: { source, uniforms: { ...uniforms } } };
+    this.validateCustomUniforms(patterns, this.config.shaderHooks);
+    this.rebuildGlassProgram(patterns, this.config.shaderHooks);
+
+    this.config.patterns = patterns;
+    this.uniforms.backgroundPattern = getPatternIndex(this.config.backgroundPattern, patterns);
+    this.invalidateAccumulation();
+  }
+
+  public setPatternUniform(pattern: string, uniform: string, value: UniformValue): void {
+    const definition = this.config.patterns[pattern];
+    if (!definition) {
+      throw new PhysicsGlassError(
+        `Unknown background pattern: ${pattern}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+    validateUniformUpdate(definition.uniforms?.[uniform], uniform, `Pattern "${pattern}"`, value);
+
+    this.config.patterns = {
+      ...this.config.patterns,
+      [pattern]: { ...definition, uniforms: { ...definition.uniforms, [uniform]: value } }
+    };
+    this.invalidateAccumulation();
+  }
+
+  /**
+   * Replace the shader hooks, or remove them with null, and recompile the
+   * glass program. Hooks that fail to compile throw and leave the current
+   * program in place.
+   */
+  public setShaderHooks(hooks: ShaderHooks | null): void {
+    const next = hooks && { ...hooks, uniforms: { ...hooks.uniforms } };
+    this.validateCustomUniforms(this.config.patterns, next);
+    this.rebuildGlassProgram(this.config.patterns, next);
+
+    this.config.shaderHooks = next;
+    this.invalidateAccumulation();
+  }
+
+  public setShaderUniform(name: string, value: UniformValue): void {
+    const hooks = this.config.shaderHooks;
+    validateUniformUpdate(hooks?.uniforms?.[name], name, 'Shader hooks', value);
+
+    this.config.shaderHooks = { ...hooks, uniforms: { ...hooks?.uniforms, [name]: value } };
+    this.invalidateAccumulation();
+  }
+
+  /**
+   * Recompile the current variant with new patterns or hooks, and drop the
+   * programs of the other variants until they are drawn again
+   */
+  private rebuildGlassProgram(
+    patterns: Record<string, PatternDefinition>,
+    hooks: ShaderHooks | null
+  ): void {
+    if (!this.webglState) return;
+
+    const variant = this.glassVariant || getShaderVariant(this.uniforms, false);
+    const glassProgram = this.createGlassProgram(this.webglState.gl, patterns, hooks, variant);
+    this.releaseGlassPrograms();
+    this.glassPrograms.set(getVariantKey(variant), glassProgram);
+    this.setGlassProgram(glassProgram);
+  }
+
+  public setBackgroundDistance(distance: number): void {
+    this.config.backgroundDistance = Math.max(0, Math.min(5, distance));
+    this.uniforms.backgroundDistance = this.config.backgroundDistance;
   }
 
   public async setBackgroundTexture(
-    texture: HTMLImageElement | HTMLCanvasElement | string
+    texture: BackgroundSource | BackgroundTextureConfig
+  ): Promise<void> {
+    try {
+      await this.replaceBackgroundTexture(texture);
+    } catch (error) {
+      this.config.onError(error as Error);
+    }
+  }
+
+  private async replaceBackgroundTexture(
+    texture: BackgroundSource | BackgroundTextureConfig
   ): Promise<void> {
     if (!this.webglState) return;
 
+    const background = await this.createBackgroundTexture(this.webglState.gl, texture);
+    if (!this.webglState) return;
+
+    // Clean up old texture
+    if (this.webglState.backgroundTexture) {
+      this.webglState.gl.deleteTexture(this.webglState.backgroundTexture);
+    }
+
+    this.webglState.backgroundTexture = background.texture;
+    this.setBackgroundFollower(background.follower);
+    this.config.backgroundTexture = texture;
+    this.updateBackgroundSampling(background.size);
+    this.invalidateAccumulation();
+  }
+
+  public async setBackdrop(backdrop: BackdropConfig | null): Promise<void> {
+    if (this.cleanupBackdrop) {
+      this.cleanupBackdrop();
+      this.cleanupBackdrop = undefined;
+    }
+    this.config.backdrop = backdrop;
+    this.backdropElement = null;
+    this.backdropSnapshot = null;
+    this.backdropCapture++;
+    if (!backdrop) {
+      await this.restoreBackground();
+      return;
+    }
+
+    const element = typeof backdrop.element === 'string'
+      ? document.querySelector<HTMLElement>(backdrop.element)
+      : backdrop.element;
+    if (!element) {
+      this.config.onError(new PhysicsGlassError(
+        `Backdrop element not found: ${backdrop.element}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      ));
+      this.config.backdrop = null;
+      await this.restoreBackground();
+      return;
+    }
+
+    if (!this.backgroundBeforeBackdrop) {
+      this.backgroundBeforeBackdrop = {
+        pattern: this.config.backgroundPattern,
+        texture: this.config.backgroundTexture
+      };
+    }
+    this.backdropElement = element;
+    this.cleanupBackdrop = observeBackdrop(element, this.canvas, backdrop, {
+      capture: () => { this.refreshBackdrop(); },
+      realign: () => this.realignBackdrop()
+    });
+    this.setBackgroundPattern('texture');
+    await this.refreshBackdrop();
+  }
+
+  /**
+   * Capture the backdrop element again, for changes the observers can't
+   * see such as images finishing loading
+   */
+  public async refreshBackdrop(): Promise<void> {
+    const element = this.backdropElement;
+    if (!element) return;
+
+    // Only the latest of overlapping captures is used
+    const capture = ++this.backdropCapture;
     try {
-      let newTexture: WebGLTexture;
-      
-      if (typeof texture === 'string') {
-        newTexture = await loadImageTexture(this.webglState.gl, texture);
-      } else {
-        newTexture = createTextureFromElement(this.webglState.gl, texture);
-      }
+      const scale = this.canvas.width / Math.max(this.canvas.getBoundingClientRect().width, 1);
+      const snapshot = await captureElement(element, this.canvas, scale);
+      if (capture !== this.backdropCapture) return;
 
-      // Clean up old texture
-      if (this.webglState.backgroundTexture) {
-        this.webglState.gl.deleteTexture(this.webglState.backgroundTexture);
+      this.backdropSnapshot = snapshot;
+      this.realignBackdrop();
+    } catch (error) {
+      this.config.onError(error as Error);
+    }
+  }
+
+  /**
+   * Redraw the current snapshot where the element now sits behind the
+   * canvas and upload it as the background. Realigns requested while the
+   * backdrop becomes the background run once it has.
+   */
+  private realignBackdrop(): void {
+    if (this.backdropUpload) {
+      this.backdropStale = true;
+      return;
+    }
+    if (!this.backdropElement || !this.backdropSnapshot || !this.webglState) return;
+
+    const target = this.backdropCanvas || document.createElement('canvas');
+    composeBackdrop(target, this.backdropSnapshot, this.backdropElement, this.canvas);
+
+    const background = this.config.backgroundTexture;
+    const isBackground = typeof background === 'object' && 'source' in background && background.source === target;
+    if (!isBackground) {
+      this.backdropCanvas = target;
+      this.backdropUpload = this.replaceBackgroundTexture({ source: target, dynamic: false })
+        .catch(error => this.reportBackdropError(error))
+        .then(() => {
+          this.backdropUpload = null;
+          if (!this.backdropStale) return;
+          this.backdropStale = false;
+          this.realignBackdrop();
+        });
+      return;
+    }
+
+    // Already the background, so upload in place rather than recreate
+    const { gl, backgroundTexture } = this.webglState;
+    try {
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, backgroundTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, getSrgbTextureFormat(gl), gl.RGBA, gl.UNSIGNED_BYTE, target);
+    } catch (error) {
+      // Safari treats foreignObject snapshots as cross-origin
+      this.reportBackdropError(error);
+      return;
+    }
+    this.updateBackgroundSampling([target.width, target.height]);
+    this.invalidateAccumulation();
+  }
+
+  /**
+   * Put back the pattern and texture the backdrop replaced, once any upload
+   * of the backdrop has settled
+   */
+  private async restoreBackground(): Promise<void> {
+    const previous = this.backgroundBeforeBackdrop;
+    if (!previous) return;
+
+    this.backgroundBeforeBackdrop = null;
+    if (this.backdropUpload) {
+      await this.backdropUpload;
+    }
+    this.setBackgroundPattern(previous.pattern);
+    await this.setBackgroundTexture(previous.texture);
+  }
+
+  private reportBackdropError(error: unknown): void {
+    this.config.onError(new PhysicsGlassError(
+      `Failed to upload backdrop: ${(error as Error).message}`,
+      ERROR_CODES.TEXTURE_UPLOAD_FAILED
+    ));
+  }
+
+  /**
+   * Create the background texture. URLs load once; elements upload through
+   * a dynamic texture so videos that are still loading appear when ready.
+   */
+  private async createBackgroundTexture(
+    gl: WebGLRenderingContext,
+    background: BackgroundSource | BackgroundTextureConfig
+  ): Promise<{ texture: WebGLTexture; follower: BackgroundFollower | null; size: [number, number] }> {
+    const { source, dynamic } = typeof background === 'object' && 'source' in background
+      ? background
+      : { source: background, dynamic: undefined };
+
+    // Stored as sRGB where the hardware can decode it, see getSrgbTextureFormat
+    const format = getSrgbTextureFormat(gl);
+    if (!source) {
+      return { texture: createDefaultTexture(gl, format), follower: null, size: [256, 256] };
+    }
+
+    if (typeof source === 'string') {
+      const image = await loadImage(source);
+      return {
+        texture: createTextureFromElement(gl, image, format),
+        follower: null,
+        size: [image.naturalWidth, image.naturalHeight]
+      };
+    }
+
+    const follower = {
+      element: source,
+      texture: createDynamicTexture(gl, source, format),
+      dynamic: dynamic ?? isVideoElement(source)
+    };
+    return { texture: follower.texture.texture, follower, size: getElementSize(source) };
+  }
+
+  private setBackgroundFollower(follower: BackgroundFollower | null): void {
+    if (this.backgroundFollower) {
+      this.backgroundFollower.texture.release();
+    }
+    this.backgroundFollower = follower;
+  }
+
+  /**
+   * Upload the latest content of the background element to texture unit 0
+   */
+  private updateBackground(): void {
+    const follower = this.backgroundFollower;
+    if (!follower || !this.webglState) return;
+
+    this.webglState.gl.activeTexture(this.webglState.gl.TEXTURE0);
+    try {
+      if (!follower.texture.update()) return;
+    } catch (error) {
+      // Cross-origin content without CORS headers cannot be uploaded; stop
+      // following it rather than failing every frame
+      this.setBackgroundFollower(null);
+      this.config.onError(new PhysicsGlassError(
+        `Failed to upload background: ${(error as Error).message}`,
+        ERROR_CODES.TEXTURE_UPLOAD_FAILED
+      ));
+      return;
+    }
+
+    this.updateBackgroundSampling(getElementSize(follower.element));
+    if (follower.dynamic) return;
+
+    // A static element only needs its first upload
+    this.setBackgroundFollower(null);
+    this.sceneSignature = '';
+  }
+
+  /**
+   * Set filtering for the background texture after an upload of the given
+   * size, then place it on the canvas
+   */
+  private updateBackgroundSampling(size: [number, number]): void {
+    if (!this.webglState || !this.webglState.backgroundTexture) return;
+
+    const { gl, backgroundTexture } = this.webglState;
+    const tiles = normalizeBackgroundFit(this.config.backgroundFit).mode === 'tile';
+    const dynamic = !!this.backgroundFollower && this.backgroundFollower.dynamic;
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, backgroundTexture);
+
+    this.backgroundSize = size;
+    this.backgroundWraps = setTextureSampling(gl, size[0], size[1], tiles, !dynamic);
+    this.updateBackgroundFit();
+  }
+
+  private updateBackgroundFit(): void {
+    const pixelRatio = this.config.performance.pixelRatio || 1;
+    const canvasSize: [number, number] = [this.canvas.width / pixelRatio, this.canvas.height / pixelRatio];
+
+    Object.assign(this.uniforms, getBackgroundFitUniforms(
+      this.config.backgroundFit,
+      canvasSize,
+      this.backgroundSize,
+      this.backgroundWraps
+    ));
+  }
+
+  public setBackgroundFit(fit: BackgroundFit | BackgroundFitConfig): void {
+    validateBackgroundFit(fit);
+    this.config.backgroundFit = fit;
+    this.updateBackgroundSampling(this.backgroundSize);
+  }
+
+  public async setEnvironment(environment: EnvironmentConfig | null): Promise<void> {
+    if (!this.webglState) return;
+
+    const nextEnvironment = environment || { intensity: 1.0, fromBackground: false };
+
+    try {
+      const newMap = await this.createEnvironmentMap(this.webglState.gl, nextEnvironment);
+
+      // Clean up old map
+      if (this.webglState.environmentMap) {
+        this.webglState.gl.deleteTexture(this.webglState.environmentMap);
       }
 
-      this.webglState.backgroundTexture = newTexture;
-      this.config.backgroundTexture = texture;
+      this.webglState.environmentMap = newMap;
+      this.config.environment = nextEnvironment;
+      this.uniforms.environmentIntensity = nextEnvironment.intensity ?? 1.0;
+      this.invalidateAccumulation();
     } catch (error) {
       this.config.onError(error as Error);
     }
   }
 
+  public setEnvironmentIntensity(intensity: number): void {
+    const clamped = Math.max(0, Math.min(5, intensity));
+    this.config.environment = { ...this.config.environment, intensity: clamped };
+    this.uniforms.environmentIntensity = clamped;
+  }
+
+  public setCaustics(caustics: Partial<CausticsConfig>): void {
+    this.config.caustics = { ...this.config.caustics, ...caustics };
+
+    if (caustics.resolution !== undefined) {
+      this.config.caustics.resolution = Math.round(Math.max(16, Math.min(512, caustics.resolution)));
+    }
+  }
+
+  public setLights(lights: LightConfig[]): void {
+    validateLights(lights);
+
+    this.config.lights = lights.map((light) => ({
+      ...light,
+      id: light.id ?? `light-${this.nextLightId++}`
+    }));
+    this.updateLightUniforms();
+  }
+
+  public updateLight(id: string | number, changes: Partial<LightConfig>): void {
+    const index = typeof id === 'number'
+      ? id
+      : this.config.lights.findIndex((light) => light.id === id);
+
+    const light = this.config.lights[index];
+    if (!light) {
+      throw new PhysicsGlassError(
+        `Light not found: ${id}`,
+        ERROR_CODES.OBJECT_NOT_FOUND
+      );
+    }
+
+    const next = { ...light, ...changes, id: light.id };
+    validateLight(next);
+    this.config.lights[index] = next;
+    this.updateLightUniforms();
+  }
+
+  private updateLightUniforms(): void {
+    const { count, types, vectors, colors, radii } = getLightUniforms(this.config.lights);
+
+    this.uniforms.lightCount = count;
+    this.uniforms.lightTypes = types;
+    this.uniforms.lightVectors = vectors;
+    this.uniforms.lightColors = colors;
+    this.uniforms.lightRadii = radii;
+  }
+
+  public addObject(object: GlassObjectConfig): string {
+    validateObject(object);
+
+    const id = object.id ?? `glass-${this.nextObjectId++}`;
+    if (this.config.objects.some((existing) => existing.id === id)) {
+      throw new PhysicsGlassError(
+        `Glass object already exists: ${id}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    this.config.objects.push({ ...object, id });
+    return id;
+  }
+
+  public updateObject(id: string, changes: Partial<GlassObjectConfig>): void {
+    const index = this.getObjectIndex(id);
+    validateObject(changes);
+    this.config.objects[index] = { ...this.config.objects[index], ...changes, id };
+  }
+
+  public removeObject(id: string): void {
+    this.config.objects.splice(this.getObjectIndex(id), 1);
+  }
+
+  public getObjects(): GlassObjectConfig[] {
+    return this.config.objects.map((object) => ({ ...object }));
+  }
+
+  private getObjectIndex(id: string): number {
+    const index = this.config.objects.findIndex((object) => object.id === id);
+    if (index < 0) {
+      throw new PhysicsGlassError(
+        `Glass object not found: ${id}`,
+        ERROR_CODES.OBJECT_NOT_FOUND
+      );
+    }
+    return index;
+  }
+
   public setMaterial(material: GlassMaterial | string): void {
     const mat = typeof material === 'string' ? GLASS_MATERIALS[material] : material;
     if (!mat) return;
 
-    this.setRefractionIndex(mat.refractionIndex);
-    this.setDispersion(mat.dispersion);
+    if (mat.dispersionModel) {
+      const nD = getRefractiveIndex(mat.dispersionModel, FRAUNHOFER_LINES.D);
+      this.config.refractionIndex = Math.max(1, Math.min(3, nD));
+      this.config.dispersion = getDispersionSpread(mat.dispersionModel);
+      this.dispersionModel = mat.dispersionModel;
+      this.updateDispersionUniforms();
+    } else {
+      this.setRefractionIndex(mat.refractionIndex);
+      this.setDispersion(mat.dispersion);
+    }
+    this.setAbsorption(mat.absorptionColor || [1, 1, 1], mat.absorptionDensity || 0);
+    this.setThinFilm(mat.thinFilm || null);
     this.config.onMaterialChange(mat);
   }
 
+  public setToneMapping(toneMapping: ToneMapping): void {
+    this.config.toneMapping = toneMapping;
+    this.uniforms.toneMapping = Math.max(0, TONE_MAPPINGS.indexOf(toneMapping));
+  }
+
+  public setExposure(exposure: number): void {
+    this.config.exposure = Math.max(0, exposure);
+    this.uniforms.exposure = this.config.exposure;
+  }
+
+  public setPolarization(polarization: Polarization): void {
+    this.config.polarization = polarization;
+
+    if (typeof polarization === 'number') {
+      this.uniforms.polarizationMode = 3;
+      this.uniforms.polarizerAngle = (polarization * Math.PI) / 180;
+    } else {
+      this.uniforms.polarizationMode = ['unpolarized', 's', 'p'].indexOf(polarization);
+      this.uniforms.polarizerAngle = 0;
+    }
+  }
+
+  public setThinFilm(film: ThinFilmConfig | null): void {
+    if (film) validateThinFilm(film);
+
+    this.config.thinFilm = film;
+    Object.assign(this.uniforms, getThinFilmUniforms(film));
+  }
+
   public getMaterials(): GlassMaterial[] {
     return Object.values(GLASS_MATERIALS);
   }
@@ -399,6 +1952,25 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     }
   }
 
+  public setQuality(quality: QualityPreset | QualityConfig): void {
+    const base = typeof quality === 'string' ? QUALITY_PRESETS[quality] : QUALITY_PRESETS.medium;
+    if (!base) {
+      throw new PhysicsGlassError(
+        `Unknown quality preset: ${quality}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    const resolved = typeof quality === 'string' ? base : { ...base, ...quality };
+    this.config.performance = { ...this.config.performance, quality };
+    this.quality = {
+      ...resolved,
+      samples: Math.round(Math.max(1, Math.min(16, resolved.samples)))
+    };
+    this.uniforms.pixelSamples = this.quality.samples;
+    this.uniforms.edgeAntialiasing = this.quality.edgeAntialiasing ? 1 : 0;
+  }
+
   public startAnimation(): void {
     this.config.animation.enabled = true;
     if (!this.animationId) {
@@ -418,6 +1990,27 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     this.config.animation.speed = Math.max(0, Math.min(5, speed));
   }
 
+  public enableRipples(enabled: boolean): void {
+    this.config.animation.surfaceRipples = enabled;
+    if (!enabled) {
+      this.rippleDrops = [];
+    }
+  }
+
+  public setRippleDynamics(damping: number, waveSpeed: number): void {
+    this.config.animation.rippleDamping = Math.max(0, Math.min(1, damping));
+    this.config.animation.rippleWaveSpeed = Math.max(0, Math.min(1, waveSpeed));
+  }
+
+  /**
+   * Inject a wave at a canvas position (0 to 1, y up). Negative strength
+   * pushes the surface down.
+   */
+  public disturb(x: number, y: number, strength = 0.1): void {
+    if (!this.config.animation.surfaceRipples || this.rippleDrops.length >= MAX_QUEUED_DROPS) return;
+    this.rippleDrops.push([x, y, strength]);
+  }
+
   public resize(): void {
     this.handleResize();
   }
@@ -429,7 +2022,12 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     // Remove event listeners
     this.canvas.removeEventListener('mousemove', this.handleMouseMove);
     this.canvas.removeEventListener('mouseleave', this.handleMouseLeave);
+    this.canvas.removeEventListener('mousedown', this.handleMouseDown);
     window.removeEventListener('resize', this.handleResize);
+
+    if (this.cleanupBackdrop) {
+      this.cleanupBackdrop();
+    }
     
     if (this.cleanupContextLoss) {
       this.cleanupContextLoss();
@@ -438,18 +2036,68 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     // Clean up WebGL resources
     if (this.webglState) {
       const { gl } = this.webglState;
+
+      if (this.causticsPass) {
+        this.causticsPass.destroy();
+        this.causticsPass = null;
+      }
+
+      if (this.ripplePass) {
+        this.ripplePass.destroy();
+        this.ripplePass = null;
+      }
+
+      if (this.accumulationPass) {
+        this.accumulationPass.destroy();
+        this.accumulationPass = null;
+      }
+
+      if (this.outputPass) {
+        this.outputPass.destroy();
+        this.outputPass = null;
+      }
+
+      if (this.hdrTarget) {
+        deleteRenderTarget(gl, this.hdrTarget);
+        this.hdrTarget = null;
+      }
+
+      this.setBackgroundFollower(null);
+
+      this.sceneLayers.forEach((target) => deleteRenderTarget(gl, target));
+      this.sceneLayers = [];
       
       if (this.webglState.backgroundTexture) {
         gl.deleteTexture(this.webglState.backgroundTexture);
       }
+
+      if (this.webglState.roughnessMap) {
+        gl.deleteTexture(this.webglState.roughnessMap);
+      }
+
+      if (this.webglState.environmentMap) {
+        gl.deleteTexture(this.webglState.environmentMap);
+      }
+
+      if (this.webglState.customShapeMap) {
+        gl.deleteTexture(this.webglState.customShapeMap);
+      }
       
       if (this.vertexBuffer) {
         gl.deleteBuffer(this.vertexBuffer);
       }
-      
-      if (this.webglState.program) {
-        gl.deleteProgram(this.webglState.program);
+
+      if (isWebGL2(gl) && this.quadVertexArray) {
+        gl.deleteVertexArray(this.quadVertexArray);
+        this.quadVertexArray = null;
+      }
+
+      if (this.objectBuffer) {
+        gl.deleteBuffer(this.objectBuffer.buffer);
+        this.objectBuffer = null;
       }
+      
+      this.releaseGlassPrograms();
     }
 
     this.webglState = null;
@@ -463,6 +2111,14 @@ export class PhysicsGlass implements PhysicsGlassAPI {
     return this.canvas;
   }
 
+  /**
+   * Backend and features of the rendering context, or null until WebGL has
+   * been set up
+   */
+  public getCapabilities(): RendererCapabilities | null {
+    return this.capabilities;
+  }
+
   public isWebGLSupported(): boolean {
     return isWebGLSupported();
   }
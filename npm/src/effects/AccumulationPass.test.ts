@@ -0,0 +1,24 @@
+import { getFrameJitter, MAX_ACCUMULATED_FRAMES } from './AccumulationPass';
+
+describe('getFrameJitter', () => {
+  it('centers the first frame', () => {
+    expect(getFrameJitter(0)).toEqual([0, 0]);
+  });
+
+  it('follows the Halton (2, 3) sequence', () => {
+    expect(getFrameJitter(1)).toEqual([0, 1 / 3 - 0.5]);
+    expect(getFrameJitter(2)[0]).toBeCloseTo(-0.25);
+    expect(getFrameJitter(2)[1]).toBeCloseTo(2 / 3 - 0.5);
+  });
+
+  it('keeps every offset distinct and inside the pixel', () => {
+    const offsets = new Set<string>();
+    for (let frame = 0; frame < MAX_ACCUMULATED_FRAMES; frame++) {
+      const [x, y] = getFrameJitter(frame);
+      expect(Math.abs(x)).toBeLessThan(0.5);
+      expect(Math.abs(y)).toBeLessThan(0.5);
+      offsets.add(`${x},${y}`);
+    }
+    expect(offsets.size).toBe(MAX_ACCUMULATED_FRAMES);
+  });
+});
\ No newline at end of file
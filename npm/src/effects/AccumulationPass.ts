@@ -0,0 +1,160 @@
+import { RenderTarget, TextureFormat } from '../types';
+
+import {
+  createShader,
+  createProgram,
+  getUniformLocations,
+  createQuadBuffer,
+  createRenderTarget,
+  deleteRenderTarget
+} from '../utils/webgl';
+
+import { vertexShaderSource } from '../shaders/vertex.glsl';
+import { accumulateFragmentSource } from '../shaders/accumulation.glsl';
+
+/**
+ * Frames averaged before a static scene counts as converged
+ */
+export const MAX_ACCUMULATED_FRAMES = 16;
+
+interface AccumulationProgram {
+  program: WebGLProgram;
+  positionLocation: number;
+  uniformLocations: Record<string, WebGLUniformLocation | null>;
+}
+
+/**
+ * Sub-pixel offset for an accumulated frame, in pixels. The first frame is
+ * centered; later ones follow a Halton (2, 3) sequence.
+ */
+export function getFrameJitter(frame: number): [number, number] {
+  if (frame === 0) return [0, 0];
+  return [halton(frame, 2) - 0.5, halton(frame, 3) - 0.5];
+}
+
+function halton(index: number, base: number): number {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let i = index; i > 0; i = Math.floor(i / base)) {
+    result += fraction * (i % base);
+    fraction /= base;
+  }
+  return result;
+}
+
+/**
+ * Temporal accumulation for static scenes. Each frame renders into an
+ * offscreen target with a different sub-pixel jitter and is blended into a
+ * running average, which the output pass then draws to the canvas. The
+ * average is kept in half floats, since 8-bit targets band as small weights
+ * round away.
+ */
+export class AccumulationPass {
+  private gl: WebGLRenderingContext;
+  private program: AccumulationProgram;
+  private quadBuffer: WebGLBuffer;
+  private frameTarget: RenderTarget | null = null;
+  private history: RenderTarget[] = [];
+  private format: TextureFormat | undefined;
+  private current = 0;
+
+  constructor(gl: WebGLRenderingContext) {
+    this.gl = gl;
+
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, accumulateFragmentSource);
+    const program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = {
+      program,
+      positionLocation: gl.getAttribLocation(program, 'a_position'),
+      uniformLocations: getUniformLocations(gl, program, ['u_frame', 'u_history', 'u_weight'])
+    };
+    this.quadBuffer = createQuadBuffer(gl);
+  }
+
+  /**
+   * Match the targets to the canvas size and texel format. Any change
+   * discards the average.
+   */
+  public resize(width: number, height: number, format: TextureFormat): void {
+    const target = this.frameTarget;
+    if (target && target.width === width && target.height === height && format === this.format) return;
+
+    const { gl } = this;
+    this.deleteTargets();
+    this.frameTarget = createRenderTarget(gl, width, height, format);
+    this.history = [createRenderTarget(gl, width, height, format), createRenderTarget(gl, width, height, format)];
+    this.format = format;
+    this.current = 0;
+  }
+
+  /**
+   * Target the next frame renders into, or null before the first resize
+   */
+  public getFrameTarget(): RenderTarget | null {
+    return this.frameTarget;
+  }
+
+  /**
+   * Blend the rendered frame into the average as its frameIndex-th sample.
+   * Returns the premultiplied average, or null before the first resize.
+   */
+  public accumulate(frameIndex: number): WebGLTexture | null {
+    const { gl, program } = this;
+    const frame = this.frameTarget;
+    if (!frame) return null;
+
+    const previous = this.history[this.current];
+    const next = this.history[1 - this.current];
+
+    gl.disable(gl.BLEND);
+    gl.viewport(0, 0, frame.width, frame.height);
+
+    this.bindProgram(next.framebuffer);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, frame.texture);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, previous.texture);
+    gl.uniform1i(program.uniformLocations.u_frame, 0);
+    gl.uniform1i(program.uniformLocations.u_history, 1);
+    gl.uniform1f(program.uniformLocations.u_weight, 1 / (frameIndex + 1));
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    this.current = 1 - this.current;
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.disableVertexAttribArray(program.positionLocation);
+
+    return next.texture;
+  }
+
+  private bindProgram(framebuffer: WebGLFramebuffer): void {
+    const { gl, program } = this;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.useProgram(program.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(program.positionLocation);
+    gl.vertexAttribPointer(program.positionLocation, 2, gl.FLOAT, false, 0, 0);
+  }
+
+  private deleteTargets(): void {
+    const { gl } = this;
+
+    if (this.frameTarget) {
+      deleteRenderTarget(gl, this.frameTarget);
+      this.frameTarget = null;
+    }
+    this.history.forEach((target) => deleteRenderTarget(gl, target));
+    this.history = [];
+  }
+
+  public destroy(): void {
+    const { gl } = this;
+
+    this.deleteTargets();
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteProgram(this.program.program);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { RenderTarget, ShaderUniforms } from '../types';
+
+import { isRotated } from '../utils/rotation';
+
+import {
+  createShader,
+  createProgram,
+  getUniformLocations,
+  createRenderTarget,
+  deleteRenderTarget
+} from '../utils/webgl';
+
+import {
+  causticsVertexShaderSource,
+  causticsFragmentShaderSource
+} from '../shaders/caustics.glsl';
+
+/**
+ * Caustic energy is stored divided by this range so focused light does not
+ * saturate the 8-bit accumulation buffer.
+ */
+export const CAUSTICS_RANGE = 4.0;
+
+/**
+ * Wavelengths traced for the red, green and blue caustic channels (nm)
+ */
+const CHANNEL_WAVELENGTHS = [650, 550, 450];
+
+/**
+ * Options for a single caustics frame
+ */
+export interface CausticsRenderOptions {
+  lightDirection: [number, number, number];
+  customShape: WebGLTexture | null;
+  rippleMap: WebGLTexture | null;
+}
+
+/**
+ * Offscreen pass that accumulates light focused by the glass onto the
+ * background plane. The main glass shader composites the result.
+ */
+export class CausticsPass {
+  private gl: WebGLRenderingContext;
+  private program: WebGLProgram;
+  private uniformLocations: Record<string, WebGLUniformLocation | null>;
+  private lightCoordLocation: number;
+  private pointBuffer: WebGLBuffer | null = null;
+  private pointCount = 0;
+  private resolution = 0;
+  private target: RenderTarget | null = null;
+
+  constructor(gl: WebGLRenderingContext, resolution: number) {
+    this.gl = gl;
+
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, causticsVertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, causticsFragmentShaderSource);
+    this.program = createProgram(gl, vertexShader, fragmentShader);
+
+    this.uniformLocations = getUniformLocations(gl, this.program, [
+      'u_time', 'u_thickness', 'u_dispersionModel', 'u_dispersionB', 'u_dispersionC',
+      'u_absorptionColor', 'u_absorptionDensity', 'u_mousePos', 'u_glassSize',
+      'u_glassShape', 'u_prismApexAngle', 'u_prismRotation', 'u_shapeSize',
+      'u_cornerRadius', 'u_superellipseExponent', 'u_tubeRadius', 'u_customShape',
+      'u_objectRotation', 'u_rippleMap', 'u_rippleStrength', 'u_lightDirection', 'u_wavelength', 'u_backgroundDistance',
+      'u_cameraType', 'u_cameraPosition', 'u_cameraTanHalfFov',
+      'u_pointEnergy'
+    ]);
+    this.lightCoordLocation = gl.getAttribLocation(this.program, 'a_lightCoord');
+
+    this.setResolution(resolution);
+  }
+
+  /**
+   * Rebuild the grid of light rays, one point per ray
+   */
+  public setResolution(resolution: number): void {
+    const { gl } = this;
+    if (resolution === this.resolution) return;
+
+    const coords = new Float32Array(resolution * resolution * 2);
+    for (let y = 0; y < resolution; y++) {
+      for (let x = 0; x < resolution; x++) {
+        const index = (y * resolution + x) * 2;
+        coords[index] = ((x + 0.5) / resolution) * 2 - 1;
+        coords[index + 1] = ((y + 0.5) / resolution) * 2 - 1;
+      }
+    }
+
+    if (this.pointBuffer) {
+      gl.deleteBuffer(this.pointBuffer);
+    }
+    this.pointBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.pointBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, coords, gl.STATIC_DRAW);
+
+    this.resolution = resolution;
+    this.pointCount = resolution * resolution;
+  }
+
+  /**
+   * Match the accumulation buffer to half the canvas resolution
+   */
+  public resize(canvasWidth: number, canvasHeight: number): void {
+    const width = Math.max(1, Math.floor(canvasWidth / 2));
+    const height = Math.max(1, Math.floor(canvasHeight / 2));
+    if (this.target && this.target.width === width && this.target.height === height) return;
+
+    if (this.target) {
+      deleteRenderTarget(this.gl, this.target);
+    }
+    this.target = createRenderTarget(this.gl, width, height);
+  }
+
+  /**
+   * Accumulate the caustics of every glass object into one buffer. Light
+   * focused by one object is not traced through the others.
+   */
+  public render(objects: ShaderUniforms[], options: CausticsRenderOptions): void {
+    const { gl, uniformLocations, target } = this;
+    if (!target) return;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.pointBuffer);
+    gl.enableVertexAttribArray(this.lightCoordLocation);
+    gl.vertexAttribPointer(this.lightCoordLocation, 2, gl.FLOAT, false, 0, 0);
+
+    if (options.customShape) {
+      gl.activeTexture(gl.TEXTURE5);
+      gl.bindTexture(gl.TEXTURE_2D, options.customShape);
+    }
+    gl.uniform1i(uniformLocations.u_customShape, 5);
+
+    if (options.rippleMap) {
+      gl.activeTexture(gl.TEXTURE7);
+      gl.bindTexture(gl.TEXTURE_2D, options.rippleMap);
+    }
+    gl.uniform1i(uniformLocations.u_rippleMap, 7);
+    gl.uniform3f(uniformLocations.u_lightDirection, ...options.lightDirection);
+
+    // Additive splatting, one wavelength per color channel. The caller's
+    // blend state is restored afterwards.
+    const blend = gl.isEnabled(gl.BLEND);
+    const blendFunc: number[] = [gl.BLEND_SRC_RGB, gl.BLEND_DST_RGB, gl.BLEND_SRC_ALPHA, gl.BLEND_DST_ALPHA]
+      .map((parameter) => gl.getParameter(parameter));
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    objects.forEach((uniforms) => {
+      this.setObjectUniforms(uniforms);
+
+      CHANNEL_WAVELENGTHS.forEach((wavelength, channel) => {
+        gl.colorMask(channel === 0, channel === 1, channel === 2, false);
+        gl.uniform1f(uniformLocations.u_wavelength, wavelength);
+        gl.drawArrays(gl.POINTS, 0, this.pointCount);
+      });
+    });
+
+    gl.colorMask(true, true, true, true);
+    gl.blendFuncSeparate(blendFunc[0], blendFunc[1], blendFunc[2], blendFunc[3]);
+    if (!blend) gl.disable(gl.BLEND);
+    gl.disableVertexAttribArray(this.lightCoordLocation);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  private setObjectUniforms(uniforms: ShaderUniforms): void {
+    const { gl, uniformLocations, target } = this;
+    if (!target) return;
+
+    // Energy that keeps unfocused light at 1.0 once scaled by CAUSTICS_RANGE
+    const [extentX, extentY] = this.getFootprintExtent(uniforms);
+    const texelsCovered = 2.4 * extentX * target.width * 2.4 * extentY * target.height;
+    const pointEnergy = texelsCovered / this.pointCount / CAUSTICS_RANGE;
+
+    gl.uniform1f(uniformLocations.u_time, uniforms.time);
+    gl.uniform1f(uniformLocations.u_thickness, uniforms.thickness);
+    gl.uniform1f(uniformLocations.u_dispersionModel, uniforms.dispersionModel);
+    gl.uniform3f(uniformLocations.u_dispersionB, ...uniforms.dispersionB);
+    gl.uniform3f(uniformLocations.u_dispersionC, ...uniforms.dispersionC);
+    gl.uniform3f(uniformLocations.u_absorptionColor, ...uniforms.absorptionColor);
+    gl.uniform1f(uniformLocations.u_absorptionDensity, uniforms.absorptionDensity);
+    gl.uniform2f(uniformLocations.u_mousePos, ...uniforms.mousePos);
+    gl.uniform1f(uniformLocations.u_glassSize, uniforms.glassSize);
+    gl.uniform1f(uniformLocations.u_glassShape, uniforms.glassShape);
+    gl.uniform1f(uniformLocations.u_prismApexAngle, uniforms.prismApexAngle);
+    gl.uniform1f(uniformLocations.u_prismRotation, uniforms.prismRotation);
+    gl.uniform2f(uniformLocations.u_shapeSize, ...uniforms.shapeSize);
+    gl.uniform1f(uniformLocations.u_cornerRadius, uniforms.cornerRadius);
+    gl.uniform1f(uniformLocations.u_superellipseExponent, uniforms.superellipseExponent);
+    gl.uniform1f(uniformLocations.u_tubeRadius, uniforms.tubeRadius);
+    gl.uniformMatrix3fv(uniformLocations.u_objectRotation, false, uniforms.objectRotation);
+    gl.uniform1f(uniformLocations.u_rippleStrength, uniforms.rippleStrength);
+    gl.uniform1f(uniformLocations.u_backgroundDistance, uniforms.backgroundDistance);
+    gl.uniform1f(uniformLocations.u_cameraType, uniforms.cameraType);
+    gl.uniform3f(uniformLocations.u_cameraPosition, ...uniforms.cameraPosition);
+    gl.uniform1f(uniformLocations.u_cameraTanHalfFov, uniforms.cameraTanHalfFov);
+    gl.uniform1f(uniformLocations.u_pointEnergy, pointEnergy);
+  }
+
+  /**
+   * Half extents of the glass footprint, matching getFootprintExtent in GLSL
+   */
+  private getFootprintExtent(uniforms: ShaderUniforms): [number, number] {
+    let extent: [number, number] = [uniforms.glassSize, uniforms.glassSize];
+    if (uniforms.glassShape > 4.5) {
+      extent = uniforms.shapeSize;
+    } else if (uniforms.glassShape === 3) {
+      extent = [uniforms.glassSize * 1.42, uniforms.glassSize * 1.42];
+    }
+
+    if (isRotated(uniforms.objectRotation)) {
+      const radius = Math.hypot(extent[0], extent[1], uniforms.glassSize);
+      extent = [radius, radius];
+    }
+    return extent;
+  }
+
+  public getTexture(): WebGLTexture | null {
+    return this.target ? this.target.texture : null;
+  }
+
+  public destroy(): void {
+    const { gl } = this;
+
+    if (this.target) {
+      deleteRenderTarget(gl, this.target);
+      this.target = null;
+    }
+
+    if (this.pointBuffer) {
+      gl.deleteBuffer(this.pointBuffer);
+      this.pointBuffer = null;
+    }
+
+    gl.deleteProgram(this.program);
+  }
+}
\ No newline at end of file
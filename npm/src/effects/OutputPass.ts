@@ -0,0 +1,83 @@
+import { ShaderUniforms } from '../types';
+
+import {
+  createShader,
+  createProgram,
+  getUniformLocations,
+  createQuadBuffer
+} from '../utils/webgl';
+
+import { vertexShaderSource } from '../shaders/vertex.glsl';
+import { outputFragmentSource } from '../shaders/output.glsl';
+
+/**
+ * How the image drawn by an output pass is stored
+ */
+export interface OutputOptions {
+  /** Color is multiplied by alpha, as in an accumulated average */
+  premultiplied: boolean;
+  /** Color is linear HDR radiance that still needs tone mapping */
+  linear: boolean;
+}
+
+/**
+ * Final pass that draws an offscreen image onto the canvas, blended the
+ * same way as glass rendered directly
+ */
+export class OutputPass {
+  private gl: WebGLRenderingContext;
+  private program: WebGLProgram;
+  private positionLocation: number;
+  private uniformLocations: Record<string, WebGLUniformLocation | null>;
+  private quadBuffer: WebGLBuffer;
+
+  constructor(gl: WebGLRenderingContext) {
+    this.gl = gl;
+
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, outputFragmentSource);
+    this.program = createProgram(gl, vertexShader, fragmentShader);
+
+    this.positionLocation = gl.getAttribLocation(this.program, 'a_position');
+    this.uniformLocations = getUniformLocations(gl, this.program, [
+      'u_image', 'u_premultiplied', 'u_encode', 'u_toneMapping', 'u_exposure'
+    ]);
+    this.quadBuffer = createQuadBuffer(gl);
+  }
+
+  public draw(
+    texture: WebGLTexture,
+    options: OutputOptions,
+    uniforms: Pick<ShaderUniforms, 'toneMapping' | 'exposure'>
+  ): void {
+    const { gl, uniformLocations } = this;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.enable(gl.BLEND);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(this.positionLocation);
+    gl.vertexAttribPointer(this.positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uniformLocations.u_image, 0);
+    gl.uniform1f(uniformLocations.u_premultiplied, options.premultiplied ? 1 : 0);
+    gl.uniform1f(uniformLocations.u_encode, options.linear ? 1 : 0);
+    gl.uniform1f(uniformLocations.u_toneMapping, uniforms.toneMapping);
+    gl.uniform1f(uniformLocations.u_exposure, uniforms.exposure);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.disableVertexAttribArray(this.positionLocation);
+  }
+
+  public destroy(): void {
+    const { gl } = this;
+
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteProgram(this.program);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { RenderTarget } from '../types';
+
+import {
+  createShader,
+  createProgram,
+  getUniformLocations,
+  createQuadBuffer,
+  createRenderTarget,
+  deleteRenderTarget
+} from '../utils/webgl';
+
+import { vertexShaderSource } from '../shaders/vertex.glsl';
+import {
+  rippleUpdateFragmentSource,
+  rippleSlopeFragmentSource
+} from '../shaders/ripple.glsl';
+
+/**
+ * Simulation cells along the longer side of the canvas
+ */
+export const RIPPLE_RESOLUTION = 256;
+
+/**
+ * Drops injected per simulation step, matching MAX_DROPS in GLSL
+ */
+export const MAX_RIPPLE_DROPS = 8;
+
+/**
+ * Radius of a drop as a fraction of the longer side of the canvas
+ */
+const DROP_RADIUS = 0.03;
+
+/**
+ * A disturbance at a canvas position (0 to 1, y up) with a signed strength
+ */
+export type RippleDrop = [number, number, number];
+
+export interface RippleStepOptions {
+  /** Fraction of wave velocity lost per step, 0 to 1 */
+  damping: number;
+  /** Fraction of the fastest stable wave speed, 0 to 1 */
+  waveSpeed: number;
+}
+
+interface RippleProgram {
+  program: WebGLProgram;
+  positionLocation: number;
+  uniformLocations: Record<string, WebGLUniformLocation | null>;
+}
+
+/**
+ * Height field wave simulation stepped in ping-pong framebuffers. Each step
+ * also writes a slope map that the glass shaders use to tilt their normals.
+ */
+export class RipplePass {
+  private gl: WebGLRenderingContext;
+  private update: RippleProgram;
+  private slope: RippleProgram;
+  private quadBuffer: WebGLBuffer;
+  private states: RenderTarget[] = [];
+  private slopeTarget: RenderTarget | null = null;
+  private current = 0;
+
+  constructor(gl: WebGLRenderingContext) {
+    this.gl = gl;
+    this.update = this.createProgram(rippleUpdateFragmentSource, [
+      'u_state', 'u_gridSize', 'u_waveSpeed', 'u_damping', 'u_dropRadius',
+      'u_dropCount', 'u_drops'
+    ]);
+    this.slope = this.createProgram(rippleSlopeFragmentSource, ['u_state', 'u_gridSize']);
+    this.quadBuffer = createQuadBuffer(gl);
+  }
+
+  private createProgram(fragmentSource: string, uniformNames: string[]): RippleProgram {
+    const { gl } = this;
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    const program = createProgram(gl, vertexShader, fragmentShader);
+
+    return {
+      program,
+      positionLocation: gl.getAttribLocation(program, 'a_position'),
+      uniformLocations: getUniformLocations(gl, program, uniformNames)
+    };
+  }
+
+  /**
+   * Match the simulation grid to the canvas aspect ratio so cells are
+   * square on screen. Resizing starts from a still surface.
+   */
+  public resize(canvasWidth: number, canvasHeight: number): void {
+    const scale = RIPPLE_RESOLUTION / Math.max(canvasWidth, canvasHeight, 1);
+    const width = Math.max(1, Math.round(canvasWidth * scale));
+    const height = Math.max(1, Math.round(canvasHeight * scale));
+    if (this.slopeTarget && this.slopeTarget.width === width && this.slopeTarget.height === height) return;
+
+    const { gl } = this;
+    this.deleteTargets();
+    this.states = [createRenderTarget(gl, width, height), createRenderTarget(gl, width, height)];
+    this.slopeTarget = createRenderTarget(gl, width, height);
+    this.current = 0;
+
+    // Zero height and velocity, as packed by the simulation
+    gl.clearColor(127 / 255, 128 / 255, 127 / 255, 128 / 255);
+    this.states.forEach((target) => {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    });
+    gl.clearColor(0, 0, 0, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  /**
+   * Advance the simulation one step, consuming up to MAX_RIPPLE_DROPS
+   * queued drops
+   */
+  public step(drops: RippleDrop[], options: RippleStepOptions): void {
+    const { gl, update, slope } = this;
+    const target = this.slopeTarget;
+    if (!target) return;
+
+    const previous = this.states[this.current];
+    const next = this.states[1 - this.current];
+    const applied = drops.splice(0, MAX_RIPPLE_DROPS);
+    const dropData = new Float32Array(MAX_RIPPLE_DROPS * 3);
+    applied.forEach((drop, index) => dropData.set(drop, index * 3));
+
+    gl.disable(gl.BLEND);
+    gl.viewport(0, 0, target.width, target.height);
+    gl.activeTexture(gl.TEXTURE0);
+
+    // Wave equation step
+    this.bindProgram(update, next);
+    gl.bindTexture(gl.TEXTURE_2D, previous.texture);
+    gl.uniform1i(update.uniformLocations.u_state, 0);
+    gl.uniform2f(update.uniformLocations.u_gridSize, target.width, target.height);
+    gl.uniform1f(update.uniformLocations.u_waveSpeed, Math.max(0, Math.min(1, options.waveSpeed)));
+    gl.uniform1f(update.uniformLocations.u_damping, Math.max(0, Math.min(1, options.damping)));
+    gl.uniform1f(update.uniformLocations.u_dropRadius, DROP_RADIUS * Math.max(target.width, target.height));
+    gl.uniform1f(update.uniformLocations.u_dropCount, applied.length);
+    gl.uniform3fv(update.uniformLocations.u_drops, dropData);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    // Slope map for the glass normals
+    this.bindProgram(slope, target);
+    gl.bindTexture(gl.TEXTURE_2D, next.texture);
+    gl.uniform1i(slope.uniformLocations.u_state, 0);
+    gl.uniform2f(slope.uniformLocations.u_gridSize, target.width, target.height);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    this.current = 1 - this.current;
+    gl.disableVertexAttribArray(slope.positionLocation);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.enable(gl.BLEND);
+  }
+
+  private bindProgram(rippleProgram: RippleProgram, target: RenderTarget): void {
+    const { gl } = this;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.useProgram(rippleProgram.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(rippleProgram.positionLocation);
+    gl.vertexAttribPointer(rippleProgram.positionLocation, 2, gl.FLOAT, false, 0, 0);
+  }
+
+  /**
+   * Slope map of the simulated surface, or null before the first resize
+   */
+  public getTexture(): WebGLTexture | null {
+    return this.slopeTarget ? this.slopeTarget.texture : null;
+  }
+
+  private deleteTargets(): void {
+    const { gl } = this;
+
+    this.states.forEach((target) => deleteRenderTarget(gl, target));
+    this.states = [];
+
+    if (this.slopeTarget) {
+      deleteRenderTarget(gl, this.slopeTarget);
+      this.slopeTarget = null;
+    }
+  }
+
+  public destroy(): void {
+    const { gl } = this;
+
+    this.deleteTargets();
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteProgram(this.update.program);
+    gl.deleteProgram(this.slope.program);
+  }
+}
\ No newline at end of file
@@ -7,9 +7,37 @@ export type {
   PhysicsGlassAPI,
   GlassShape,
   BackgroundPattern,
+  PatternDefinition,
+  UniformValue,
+  ShaderHooks,
+  RendererCapabilities,
   GlassMaterial,
+  DispersionModel,
+  EnvironmentConfig,
+  CausticsConfig,
+  PrismConfig,
+  ShapeDimensions,
+  CustomShapeConfig,
+  CustomShapeSource,
+  GlassObjectConfig,
+  GlassRotation,
+  CameraConfig,
+  LightConfig,
+  ThinFilmConfig,
+  Polarization,
+  ToneMapping,
+  LightType,
+  TextureSource,
+  BackgroundElement,
+  BackgroundSource,
+  BackgroundTextureConfig,
+  BackgroundFit,
+  BackgroundFitConfig,
+  BackdropConfig,
   MouseConfig,
   PerformanceConfig,
+  QualityPreset,
+  QualityConfig,
   AnimationConfig
 } from './types';
 
@@ -25,5 +53,10 @@ export {
   isWebGLSupported
 } from './utils/webgl';
 
+export {
+  getRefractiveIndex,
+  abbeToCauchy
+} from './utils/dispersion';
+
 // Default export for convenience
 export { PhysicsGlass as default } from './PhysicsGlass'; 
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Blend a freshly rendered frame into the running average. Frames hold
+ * straight color; the average is kept premultiplied so that pixels with
+ * different coverage average correctly.
+ */
+export const accumulateFragmentSource = `
+precision highp float;
+
+uniform sampler2D u_frame;
+uniform sampler2D u_history;
+uniform float u_weight;
+
+varying vec2 v_uv;
+
+void main() {
+#ifdef WEBGL2
+    vec4 frame = texelFetch(u_frame, ivec2(gl_FragCoord.xy), 0);
+    vec4 history = texelFetch(u_history, ivec2(gl_FragCoord.xy), 0);
+#else
+    vec4 frame = texture2D(u_frame, v_uv);
+    vec4 history = texture2D(u_history, v_uv);
+#endif
+    gl_FragColor = mix(history, vec4(frame.rgb * frame.a, frame.a), u_weight);
+}
+`;
\ No newline at end of file
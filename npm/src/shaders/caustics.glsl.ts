@@ -0,0 +1,57 @@
+import { glassCommonSource } from './common.glsl';
+
+/**
+ * Caustics are gathered by splatting one point per light ray: each ray is
+ * traced through the glass from the light and lands on the background plane,
+ * so regions where the glass focuses light receive more points.
+ */
+export const causticsVertexShaderSource = `
+attribute vec2 a_lightCoord;
+
+uniform float u_glassShape;
+uniform vec3 u_lightDirection;
+uniform float u_wavelength;
+uniform float u_pointEnergy;
+
+varying vec3 v_energy;
+
+${glassCommonSource}
+
+void main() {
+    vec3 glassCenter = vec3(u_mousePos, 0.0);
+    vec3 rayDir = -normalize(u_lightDirection);
+    
+    // Light rays cover the glass footprint where it crosses z = 0
+    vec2 extent = getFootprintExtent(u_glassShape, u_glassSize) * 1.2;
+    vec3 footprint = glassCenter + vec3(a_lightCoord * extent, 0.0);
+    vec3 rayOrigin = footprint - rayDir * 2.0;
+    
+    LightPath path = traceGlassRay(rayOrigin, rayDir, glassCenter, u_glassShape, u_glassSize, getRefractiveIndex(u_wavelength));
+    
+    // Rays that miss, stay trapped or head back toward the light add no caustic
+    if (path.hit < 0.5 || path.trapped > 0.5 || path.exitDir.z > -0.05) {
+        gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+        gl_PointSize = 1.0;
+        v_energy = vec3(0.0);
+        return;
+    }
+    
+    // Land on the background plane behind the glass
+    vec3 landing = getBackgroundHit(path.exitPoint, path.exitDir);
+    
+    gl_Position = vec4(getBackgroundUV(landing) * 2.0 - 1.0, 0.0, 1.0);
+    gl_PointSize = 1.0;
+    float transmission = 0.5 * (path.transmission.x + path.transmission.y);
+    v_energy = getTransmittance(path.pathLength) * transmission * u_pointEnergy;
+}
+`;
+
+export const causticsFragmentShaderSource = `
+precision highp float;
+
+varying vec3 v_energy;
+
+void main() {
+    gl_FragColor = vec4(v_energy, 1.0);
+}
+`;
\ No newline at end of file
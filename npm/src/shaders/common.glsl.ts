@@ -0,0 +1,624 @@
+import { ShaderHooks } from '../types';
+import { objectUniformSource } from '../utils/objectUniforms';
+
+/**
+ * GLSL shared by every program that traces light through the glass:
+ * shape intersections, refraction, dispersion and absorption. Hook
+ * declarations follow the uniforms, and the normal hook runs wherever a
+ * surface normal is perturbed.
+ */
+export const getGlassCommonSource = (
+  hooks: Pick<ShaderHooks, 'declarations' | 'normal'> = {}
+): string => `
+uniform float u_time;
+uniform float u_prismApexAngle;
+uniform float u_prismRotation;
+uniform sampler2D u_customShape;
+uniform sampler2D u_rippleMap;
+uniform float u_rippleStrength;
+uniform float u_backgroundDistance;
+uniform float u_cameraType;
+uniform vec3 u_cameraPosition;
+uniform float u_cameraTanHalfFov;
+
+${objectUniformSource}
+
+#define PI 3.14159265359
+#define MAX_INTERNAL_BOUNCES 4
+#define MAX_MARCH_STEPS 64
+
+// Render targets have a single level, which WebGL2 reads explicitly rather
+// than deriving one inside loops and branches
+#ifdef WEBGL2
+#define textureLevelZero(image, uv) textureLod(image, uv, 0.0)
+#else
+#define textureLevelZero(image, uv) texture2D(image, uv)
+#endif
+
+// Glass programs compiled for a single shape define GLASS_SHAPE, which
+// turns every shape test into a constant the compiler folds away
+#ifdef GLASS_SHAPE
+#define SHAPE_TYPE(shapeType) float(GLASS_SHAPE)
+#else
+#define SHAPE_TYPE(shapeType) shapeType
+#endif
+
+${hooks.declarations || ''}
+
+// Noise function for surface perturbations
+float noise(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+float fbm(vec2 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    float frequency = 1.0;
+    
+    for(int i = 0; i < 4; i++) {
+        value += amplitude * noise(p * frequency);
+        amplitude *= 0.5;
+        frequency *= 2.0;
+    }
+    return value;
+}
+
+// Ray-sphere intersection
+vec2 intersectSphere(vec3 rayOrigin, vec3 rayDir, vec3 sphereCenter, float radius) {
+    vec3 oc = rayOrigin - sphereCenter;
+    float b = dot(oc, rayDir);
+    float c = dot(oc, oc) - radius * radius;
+    float discriminant = b * b - c;
+    
+    if (discriminant < 0.0) return vec2(-1.0);
+    
+    float sqrt_discriminant = sqrt(discriminant);
+    float t1 = -b - sqrt_discriminant;
+    float t2 = -b + sqrt_discriminant;
+    
+    return vec2(t1, t2);
+}
+
+// Ray-cylinder intersection (infinite height, vertical axis)
+vec2 intersectCylinder(vec3 rayOrigin, vec3 rayDir, vec3 cylinderCenter, float radius) {
+    vec2 ro = rayOrigin.xz - cylinderCenter.xz;
+    vec2 rd = rayDir.xz;
+    
+    float a = dot(rd, rd);
+    if (a < 1e-6) return vec2(-1.0);
+    float b = 2.0 * dot(ro, rd);
+    float c = dot(ro, ro) - radius * radius;
+    
+    float discriminant = b * b - 4.0 * a * c;
+    if (discriminant < 0.0) return vec2(-1.0);
+    
+    float sqrt_discriminant = sqrt(discriminant);
+    float t1 = (-b - sqrt_discriminant) / (2.0 * a);
+    float t2 = (-b + sqrt_discriminant) / (2.0 * a);
+    
+    return vec2(t1, t2);
+}
+
+// Get sphere normal at point
+vec3 getSphereNormal(vec3 point, vec3 center) {
+    return normalize(point - center);
+}
+
+// Get cylinder normal at point
+vec3 getCylinderNormal(vec3 point, vec3 center) {
+    vec3 toPoint = point - center;
+    return normalize(vec3(toPoint.x, 0.0, toPoint.z));
+}
+
+// Biconvex lens: intersection of two spheres whose rims meet at glassSize
+// Radius of the two spherical faces that give the lens its center thickness
+float getLensRadius(float glassSize) {
+    float sag = clamp(u_thickness * 0.5, 1e-3, glassSize * 0.999);
+    return (glassSize * glassSize + sag * sag) / (2.0 * sag);
+}
+
+vec3 getLensOffset(float glassSize) {
+    float radius = getLensRadius(glassSize);
+    return vec3(0.0, 0.0, sqrt(radius * radius - glassSize * glassSize));
+}
+
+// Rotate a vector about the viewing axis
+vec3 rotateZ(vec3 v, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec3(c * v.x - s * v.y, s * v.x + c * v.y, v.z);
+}
+
+bool isObjectRotated() {
+    return u_objectRotation[0][0] + u_objectRotation[1][1] + u_objectRotation[2][2] < 3.0 - 1e-4;
+}
+
+// Triangular prism in its local frame: two refracting faces meet along an
+// apex edge at x = glassSize, closed by a base face and two end caps.
+// Each plane is (outward normal, distance from the prism center).
+vec4 getPrismPlane(int index, float glassSize) {
+    float halfApex = u_prismApexAngle * 0.5;
+    float faceDistance = glassSize * sin(halfApex);
+    
+    if (index == 0) return vec4(sin(halfApex), 0.0, cos(halfApex), faceDistance);
+    if (index == 1) return vec4(sin(halfApex), 0.0, -cos(halfApex), faceDistance);
+    if (index == 2) return vec4(-1.0, 0.0, 0.0, glassSize);
+    if (index == 3) return vec4(0.0, 1.0, 0.0, glassSize);
+    return vec4(0.0, -1.0, 0.0, glassSize);
+}
+
+// Ray-prism intersection against the five bounding planes.
+// Returns (tEnter, tExit); the ray misses when tEnter > tExit.
+vec2 intersectPrism(vec3 rayOrigin, vec3 rayDir, vec3 center, float glassSize, out vec3 entryNormal, out vec3 exitNormal) {
+    vec3 ro = rotateZ(rayOrigin - center, -u_prismRotation);
+    vec3 rd = rotateZ(rayDir, -u_prismRotation);
+    
+    float tEnter = -1e5;
+    float tExit = 1e5;
+    entryNormal = vec3(0.0, 0.0, 1.0);
+    exitNormal = vec3(0.0, 0.0, -1.0);
+    
+    for (int i = 0; i < 5; i++) {
+        vec4 plane = getPrismPlane(i, glassSize);
+        float denom = dot(plane.xyz, rd);
+        float dist = plane.w - dot(plane.xyz, ro);
+        
+        if (abs(denom) < 1e-6) {
+            // Parallel to this face: outside it means no hit at all
+            if (dist < 0.0) return vec2(1.0, -1.0);
+            continue;
+        }
+        
+        float t = dist / denom;
+        if (denom < 0.0 && t > tEnter) {
+            tEnter = t;
+            entryNormal = plane.xyz;
+        } else if (denom > 0.0 && t < tExit) {
+            tExit = t;
+            exitNormal = plane.xyz;
+        }
+    }
+    
+    entryNormal = rotateZ(entryNormal, u_prismRotation);
+    exitNormal = rotateZ(exitNormal, u_prismRotation);
+    return vec2(tEnter, tExit);
+}
+
+// Flat glass is a slab with a circular footprint, u_thickness deep
+float getSlabHalfThickness() {
+    return u_thickness * 0.5;
+}
+
+// Smallest positive distance to leave a slab from inside it
+float intersectSlabExit(vec3 rayOrigin, vec3 rayDir, vec3 center, float glassSize, out vec3 normal) {
+    float halfThickness = getSlabHalfThickness();
+    float tExit = 1e5;
+    normal = vec3(0.0, 0.0, -1.0);
+    
+    if (rayDir.z < 0.0) {
+        tExit = (center.z - halfThickness - rayOrigin.z) / rayDir.z;
+    } else if (rayDir.z > 0.0) {
+        tExit = (center.z + halfThickness - rayOrigin.z) / rayDir.z;
+        normal = vec3(0.0, 0.0, 1.0);
+    }
+    
+    // Side wall of the circular footprint
+    vec2 ro = rayOrigin.xy - center.xy;
+    vec2 rd = rayDir.xy;
+    float a = dot(rd, rd);
+    if (a > 1e-6) {
+        float b = dot(ro, rd);
+        float c = dot(ro, ro) - glassSize * glassSize;
+        float tWall = (-b + sqrt(max(b * b - a * c, 0.0))) / a;
+        if (tWall < tExit) {
+            tExit = tWall;
+            vec2 wallPoint = ro + rd * tWall;
+            normal = normalize(vec3(wallPoint, 0.0));
+        }
+    }
+    
+    return tExit;
+}
+
+// 2D signed distance to a rounded rectangle
+float sdRoundedRect(vec2 p, vec2 halfSize, float radius) {
+    vec2 q = abs(p) - halfSize + radius;
+    return length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
+}
+
+// Approximate 2D signed distance to the superellipse |x/a|^n + |y/b|^n = 1
+float sdSuperellipse(vec2 p, vec2 halfSize, float exponent) {
+    vec2 q = abs(p) / halfSize;
+    float f = pow(pow(q.x, exponent) + pow(q.y, exponent), 1.0 / exponent);
+    return (f - 1.0) * min(halfSize.x, halfSize.y);
+}
+
+// 2D signed distance to a stadium, the footprint of a capsule
+float sdStadium(vec2 p, vec2 halfSize) {
+    float halfLength = max(halfSize.x - halfSize.y, 0.0);
+    return length(vec2(p.x - clamp(p.x, -halfLength, halfLength), p.y)) - halfSize.y;
+}
+
+// Custom shapes store a 16-bit height in R and G and the signed distance to
+// the silhouette in B, stretched over the footprint rectangle
+vec4 sampleCustomShape(vec2 p) {
+    vec2 localUV = p / (2.0 * u_shapeSize) + 0.5;
+    return texture2D(u_customShape, vec2(localUV.x, 1.0 - localUV.y));
+}
+
+float getCustomHeight(vec2 p) {
+    vec4 texel = sampleCustomShape(p);
+    return texel.r + texel.g / 255.0;
+}
+
+// 2D signed distance to a custom silhouette, positive outside
+float sdCustomShape(vec2 p) {
+    float silhouette = (0.5 - sampleCustomShape(p).b) * 2.0 * min(u_shapeSize.x, u_shapeSize.y);
+    return max(sdRoundedRect(p, u_shapeSize, 0.0), silhouette);
+}
+
+// Extrude a 2D footprint into a slab whose edges are fully rounded
+float sdRoundedExtrusion(float footprintDistance, float z, float halfDepth) {
+    vec2 w = vec2(footprintDistance + halfDepth, abs(z));
+    return min(max(w.x, w.y), 0.0) + length(max(w, 0.0)) - halfDepth;
+}
+
+// Signed distance to the distance-field shapes, relative to the glass center:
+// 5 rounded rectangle, 6 squircle, 7 capsule, 8 torus, 9 custom height field
+float getShapeDistance(vec3 p, float shapeType, float glassSize) {
+    float halfDepth = getSlabHalfThickness();
+    
+    if (SHAPE_TYPE(shapeType) < 5.5) {
+        float radius = min(u_cornerRadius, min(u_shapeSize.x, u_shapeSize.y));
+        return sdRoundedExtrusion(sdRoundedRect(p.xy, u_shapeSize, radius), p.z, halfDepth);
+    } else if (SHAPE_TYPE(shapeType) < 6.5) {
+        return sdRoundedExtrusion(sdSuperellipse(p.xy, u_shapeSize, u_superellipseExponent), p.z, halfDepth);
+    } else if (SHAPE_TYPE(shapeType) < 7.5) {
+        // Capsule lying along x, as thick as it is tall
+        float halfLength = max(u_shapeSize.x - u_shapeSize.y, 0.0);
+        return length(vec3(p.x - clamp(p.x, -halfLength, halfLength), p.yz)) - u_shapeSize.y;
+    } else if (SHAPE_TYPE(shapeType) > 8.5) {
+        // Height field mirrored front and back; steep bevels are not a true
+        // distance field, so halve the step to stay conservative
+        float surface = abs(p.z) - halfDepth * (getCustomHeight(p.xy) - 0.02);
+        return max(sdRoundedRect(p.xy, u_shapeSize, 0.0), surface * 0.5);
+    }
+    
+    // Torus facing the viewer
+    vec2 q = vec2(length(p.xy) - (u_shapeSize.x - u_tubeRadius), p.z);
+    return length(q) - u_tubeRadius;
+}
+
+// Surface normal from the gradient of the distance field
+vec3 getShapeNormal(vec3 p, float shapeType, float glassSize) {
+    // Height fields are sampled a texel apart to avoid bilinear faceting
+    vec2 e = SHAPE_TYPE(shapeType) > 8.5 ? vec2(2e-3, -2e-3) : vec2(1e-4, -1e-4);
+    return normalize(
+        e.xyy * getShapeDistance(p + e.xyy, shapeType, glassSize) +
+        e.yyx * getShapeDistance(p + e.yyx, shapeType, glassSize) +
+        e.yxy * getShapeDistance(p + e.yxy, shapeType, glassSize) +
+        e.xxx * getShapeDistance(p + e.xxx, shapeType, glassSize)
+    );
+}
+
+// Sphere trace a ray from outside onto a distance-field shape
+float marchShapeEntry(vec3 rayOrigin, vec3 rayDir, vec3 center, float shapeType, float glassSize, out vec3 normal) {
+    normal = vec3(0.0, 0.0, 1.0);
+    float boundRadius = length(u_shapeSize) + getSlabHalfThickness();
+    vec2 bounds = intersectSphere(rayOrigin, rayDir, center, boundRadius);
+    if (bounds.y < 0.0) return -1.0;
+    
+    float t = max(bounds.x, 0.0);
+    for (int i = 0; i < MAX_MARCH_STEPS; i++) {
+        vec3 p = rayOrigin + rayDir * t - center;
+        float dist = getShapeDistance(p, shapeType, glassSize);
+        if (dist < 1e-4) {
+            normal = getShapeNormal(p, shapeType, glassSize);
+            return t;
+        }
+        t += dist;
+        if (t > bounds.y) break;
+    }
+    return -1.0;
+}
+
+// Sphere trace a ray from just inside a distance-field shape to its surface
+float marchShapeExit(vec3 rayOrigin, vec3 rayDir, vec3 center, float shapeType, float glassSize, out vec3 normal) {
+    float t = 1e-3;
+    for (int i = 0; i < MAX_MARCH_STEPS; i++) {
+        float dist = -getShapeDistance(rayOrigin + rayDir * t - center, shapeType, glassSize);
+        if (dist < 1e-4) break;
+        t += dist;
+    }
+    normal = getShapeNormal(rayOrigin + rayDir * t - center, shapeType, glassSize);
+    return t;
+}
+
+// Half extents of the glass footprint as seen by the viewer
+vec2 getFootprintExtent(float shapeType, float glassSize) {
+    vec2 extent = vec2(glassSize);
+    if (SHAPE_TYPE(shapeType) > 4.5) {
+        extent = u_shapeSize;
+    } else if (SHAPE_TYPE(shapeType) > 2.5 && SHAPE_TYPE(shapeType) < 3.5) {
+        // A rotated prism footprint fits inside its circumscribed square
+        extent = vec2(glassSize * 1.42);
+    }
+    
+    // A rotated object fits inside the sphere around its footprint and depth
+    if (isObjectRotated()) extent = vec2(length(vec3(extent, glassSize)));
+    return extent;
+}
+
+// Follow a ray leaving the glass to the background plane behind it. Rays
+// that run along or away from the plane are cut off at a grazing angle.
+vec3 getBackgroundHit(vec3 point, vec3 dir) {
+    float t = (-u_backgroundDistance - point.z) / min(dir.z, -0.05);
+    return point + dir * max(t, 0.0);
+}
+
+// Canvas position where a point on the background plane appears when
+// nothing is in the way, so the background lines up around the glass
+vec2 getBackgroundUV(vec3 point) {
+    if (u_cameraType < 0.5) return point.xy;
+    float depth = max(u_cameraPosition.z - point.z, 1e-4);
+    return 0.5 + (point.xy - u_cameraPosition.xy) / (2.0 * u_cameraTanHalfFov * depth);
+}
+
+// Distance to where a view ray enters the glass, or -1.0 on a miss.
+// Writes the outward surface normal at the entry point.
+float intersectGlassEntry(vec3 rayOrigin, vec3 rayDir, vec3 center, float shapeType, float glassSize, out vec3 normal) {
+    normal = vec3(0.0, 0.0, 1.0);
+    
+    if (SHAPE_TYPE(shapeType) < 0.5) {
+        // Sphere
+        vec2 t = intersectSphere(rayOrigin, rayDir, center, glassSize);
+        if (t.x < 0.0) return -1.0;
+        normal = getSphereNormal(rayOrigin + rayDir * t.x, center);
+        return t.x;
+        
+    } else if (SHAPE_TYPE(shapeType) < 1.5) {
+        // Cylinder
+        vec2 t = intersectCylinder(rayOrigin, rayDir, center, glassSize);
+        if (t.x < 0.0) return -1.0;
+        normal = getCylinderNormal(rayOrigin + rayDir * t.x, center);
+        return t.x;
+        
+    } else if (SHAPE_TYPE(shapeType) < 2.5) {
+        // Convex lens
+        float radius = getLensRadius(glassSize);
+        vec3 offset = getLensOffset(glassSize);
+        vec2 tFront = intersectSphere(rayOrigin, rayDir, center - offset, radius);
+        vec2 tBack = intersectSphere(rayOrigin, rayDir, center + offset, radius);
+        if (tFront.x < 0.0 || tBack.x < 0.0) return -1.0;
+        
+        float tIn = max(tFront.x, tBack.x);
+        if (tIn > min(tFront.y, tBack.y)) return -1.0;
+        
+        vec3 surfaceCenter = tFront.x > tBack.x ? center - offset : center + offset;
+        normal = getSphereNormal(rayOrigin + rayDir * tIn, surfaceCenter);
+        return tIn;
+        
+    } else if (SHAPE_TYPE(shapeType) < 3.5) {
+        // Triangular prism
+        vec3 exitNormal;
+        vec2 t = intersectPrism(rayOrigin, rayDir, center, glassSize, normal, exitNormal);
+        if (t.x > t.y || t.x < 0.0) return -1.0;
+        return t.x;
+        
+    } else if (SHAPE_TYPE(shapeType) < 4.5) {
+        // Flat glass enters through the front face of a slab
+        float t = (center.z + getSlabHalfThickness() - rayOrigin.z) / rayDir.z;
+        vec2 centered = (rayOrigin + rayDir * t).xy - center.xy;
+        if (t < 0.0 || length(centered) > glassSize) return -1.0;
+        return t;
+        
+    } else {
+        // Rounded rectangle, squircle, capsule and torus
+        return marchShapeEntry(rayOrigin, rayDir, center, shapeType, glassSize, normal);
+    }
+}
+
+// Distance to where a ray travelling inside the glass leaves it.
+// Writes the outward surface normal at the exit point.
+float intersectGlassExit(vec3 rayOrigin, vec3 rayDir, vec3 center, float shapeType, float glassSize, out vec3 normal) {
+    if (SHAPE_TYPE(shapeType) < 0.5) {
+        // Sphere
+        float t = intersectSphere(rayOrigin, rayDir, center, glassSize).y;
+        normal = getSphereNormal(rayOrigin + rayDir * t, center);
+        return t;
+        
+    } else if (SHAPE_TYPE(shapeType) < 1.5) {
+        // Cylinder
+        vec2 hits = intersectCylinder(rayOrigin, rayDir, center, glassSize);
+        if (hits.y < 0.0) {
+            // Travelling along the axis: the ray never reaches the wall
+            normal = vec3(0.0, 1.0, 0.0);
+            return 1e5;
+        }
+        normal = getCylinderNormal(rayOrigin + rayDir * hits.y, center);
+        return hits.y;
+        
+    } else if (SHAPE_TYPE(shapeType) < 2.5) {
+        // Convex lens
+        float radius = getLensRadius(glassSize);
+        vec3 offset = getLensOffset(glassSize);
+        float tFront = intersectSphere(rayOrigin, rayDir, center - offset, radius).y;
+        float tBack = intersectSphere(rayOrigin, rayDir, center + offset, radius).y;
+        
+        float t = min(tFront, tBack);
+        vec3 surfaceCenter = tFront < tBack ? center - offset : center + offset;
+        normal = getSphereNormal(rayOrigin + rayDir * t, surfaceCenter);
+        return t;
+        
+    } else if (SHAPE_TYPE(shapeType) < 3.5) {
+        // Triangular prism
+        vec3 entryNormal;
+        return intersectPrism(rayOrigin, rayDir, center, glassSize, entryNormal, normal).y;
+        
+    } else if (SHAPE_TYPE(shapeType) < 4.5) {
+        // Flat glass
+        return intersectSlabExit(rayOrigin, rayDir, center, glassSize, normal);
+        
+    } else {
+        // Rounded rectangle, squircle, capsule and torus
+        return marchShapeExit(rayOrigin, rayDir, center, shapeType, glassSize, normal);
+    }
+}
+
+// 3D refraction using Snell's law
+vec3 refract3D(vec3 incident, vec3 normal, float eta) {
+    float cosI = dot(-incident, normal);
+    float sinT2 = eta * eta * (1.0 - cosI * cosI);
+    
+    if(sinT2 >= 1.0) {
+        // Total internal reflection
+        return reflect(incident, normal);
+    }
+    
+    float cosT = sqrt(1.0 - sinT2);
+    return eta * incident + (eta * cosI - cosT) * normal;
+}
+
+// Refractive index at a wavelength in nanometres (Cauchy or Sellmeier)
+float getRefractiveIndex(float wavelength) {
+    float lambda2 = wavelength * wavelength * 1e-6;
+    
+    if (u_dispersionModel < 0.5) {
+        return u_dispersionB.x + u_dispersionB.y / lambda2 + u_dispersionB.z / (lambda2 * lambda2);
+    }
+    
+    vec3 terms = u_dispersionB * lambda2 / (lambda2 - u_dispersionC);
+    return sqrt(1.0 + terms.x + terms.y + terms.z);
+}
+
+// Beer–Lambert transmittance over a path length inside the glass
+vec3 getTransmittance(float pathLength) {
+    vec3 absorption = -log(max(u_absorptionColor, vec3(0.001))) * u_absorptionDensity;
+    return exp(-absorption * pathLength);
+}
+
+// Light path through the glass for a single wavelength
+struct LightPath {
+    float hit;
+    vec3 entryPoint;
+    vec3 entryNormal;
+    vec3 exitPoint;
+    vec3 exitDir;
+    float pathLength;
+    float trapped;
+    // Fraction of s and p polarized light reflected at the entry surface
+    vec2 reflectance;
+    // Fraction of s and p polarized light that makes it out of the exit
+    // surface, or that is still inside when the path is trapped
+    vec2 transmission;
+};
+
+// Exact Fresnel reflectance of a dielectric interface for s and p polarized
+// light. eta is the index on the far side over the index on the near side.
+vec2 fresnelDielectric(float cosI, float eta) {
+    float cosT2 = 1.0 - (1.0 - cosI * cosI) / (eta * eta);
+    if (cosT2 <= 0.0) return vec2(1.0);
+    
+    float cosT = sqrt(cosT2);
+    float rs = (cosI - eta * cosT) / (cosI + eta * cosT);
+    float rp = (eta * cosI - cosT) / (eta * cosI + cosT);
+    return vec2(rs * rs, rp * rp);
+}
+
+// Small animated surface perturbation applied to every interface, plus the
+// slope of the simulated ripples at this point of the canvas
+vec3 perturbNormal(vec3 normal, vec2 uv) {
+    vec3 perturbation = vec3(
+        fbm(uv * 20.0 + u_time * 0.1) * 0.02,
+        fbm(uv * 20.0 + u_time * 0.13) * 0.02,
+        0.0
+    );
+    
+    if (u_rippleStrength > 0.0) {
+        vec2 slope = (textureLevelZero(u_rippleMap, uv).rg * 255.0 - 128.0) / 127.0;
+        perturbation -= vec3(slope, 0.0) * u_objectRotation * u_rippleStrength;
+    }
+    
+    normal = normalize(normal + perturbation);
+    {
+${hooks.normal || ''}
+    }
+    return normalize(normal);
+}
+
+// Trace a ray through a glass shape: refract on entry, travel through the
+// volume, then refract out at the exit surface. Total internal reflection
+// keeps the ray inside for up to MAX_INTERNAL_BOUNCES bounces.
+LightPath traceLocalGlassRay(vec3 rayOrigin, vec3 rayDir, vec3 glassCenter, float shapeType, float glassSize, float ior) {
+    LightPath path;
+    path.hit = 0.0;
+    path.entryPoint = rayOrigin;
+    path.entryNormal = vec3(0.0, 0.0, 1.0);
+    path.exitPoint = rayOrigin;
+    path.exitDir = rayDir;
+    path.pathLength = 0.0;
+    path.trapped = 0.0;
+    path.reflectance = vec2(0.0);
+    path.transmission = vec2(1.0);
+    
+    vec3 normal;
+    float tEnter = intersectGlassEntry(rayOrigin, rayDir, glassCenter, shapeType, glassSize, normal);
+    if (tEnter < 0.0) return path;
+    
+    vec3 position = rayOrigin + rayDir * tEnter;
+    vec2 surfaceUV = glassCenter.xy + (u_objectRotation * (position - glassCenter)).xy;
+    
+    path.hit = 1.0;
+    path.entryPoint = position;
+    path.entryNormal = perturbNormal(normal, surfaceUV);
+    
+    path.reflectance = fresnelDielectric(abs(dot(rayDir, path.entryNormal)), ior);
+    path.transmission = 1.0 - path.reflectance;
+    
+    vec3 direction = refract3D(rayDir, path.entryNormal, 1.0 / ior);
+    path.trapped = 1.0;
+    
+    for (int i = 0; i < MAX_INTERNAL_BOUNCES; i++) {
+        float tExit = intersectGlassExit(position, direction, glassCenter, shapeType, glassSize, normal);
+        position += direction * tExit;
+        path.pathLength += tExit;
+        
+        // Leaving the glass: the interface normal faces back into the volume
+        vec3 exitNormal = -perturbNormal(normal, surfaceUV);
+        float cosI = dot(-direction, exitNormal);
+        if (ior * ior * (1.0 - cosI * cosI) < 1.0) {
+            // The part reflected back inside here is not followed further
+            path.transmission *= 1.0 - fresnelDielectric(cosI, 1.0 / ior);
+            direction = refract3D(direction, exitNormal, ior);
+            path.trapped = 0.0;
+            break;
+        }
+        
+        // Total internal reflection
+        direction = reflect(direction, exitNormal);
+    }
+    
+    path.exitPoint = position;
+    path.exitDir = direction;
+    return path;
+}
+
+// Trace in the object's own frame. u_objectRotation takes local directions
+// into canvas space; multiplying from the left applies its inverse.
+LightPath traceGlassRay(vec3 rayOrigin, vec3 rayDir, vec3 glassCenter, float shapeType, float glassSize, float ior) {
+    vec3 localOrigin = glassCenter + (rayOrigin - glassCenter) * u_objectRotation;
+    vec3 localDir = rayDir * u_objectRotation;
+    
+    LightPath path = traceLocalGlassRay(localOrigin, localDir, glassCenter, shapeType, glassSize, ior);
+    path.entryPoint = glassCenter + u_objectRotation * (path.entryPoint - glassCenter);
+    path.entryNormal = u_objectRotation * path.entryNormal;
+    path.exitPoint = glassCenter + u_objectRotation * (path.exitPoint - glassCenter);
+    path.exitDir = u_objectRotation * path.exitDir;
+    return path;
+}
+`;
+
+/**
+ * Shared GLSL without hooks
+ */
+export const glassCommonSource = getGlassCommonSource();
\ No newline at end of file
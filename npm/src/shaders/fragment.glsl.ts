@@ -1,289 +1,576 @@
-export const fragmentShaderSource = `
+import { ShaderHooks } from '../types';
+import { getGlassCommonSource } from './common.glsl';
+import { toneMappingSource } from './output.glsl';
+
+/**
+ * GLSL spliced into the glass fragment shader: the `#define`s of the
+ * program variant, the registered background patterns, which must define
+ * `getCustomPattern`, and the shader hooks
+ */
+export interface FragmentShaderParts {
+  defines: string;
+  patterns: string;
+  hooks?: Omit<ShaderHooks, 'uniforms' | 'onBeforeCompile'>;
+}
+
+export const getFragmentShaderSource = ({ defines, patterns, hooks = {} }: FragmentShaderParts): string => `
+${defines}
 precision highp float;
 
-uniform float u_time;
 uniform vec2 u_resolution;
-uniform vec2 u_mousePos;
-uniform float u_refractionIndex;
-uniform float u_dispersion;
-uniform float u_thickness;
-uniform float u_glassSize;
-uniform float u_glassShape;
-uniform float u_backgroundPattern;
+uniform float u_spectralSamples;
+uniform float u_roughness;
+uniform sampler2D u_roughnessMap;
+uniform float u_polarizationMode;
+uniform float u_polarizerAngle;
+uniform float u_pixelSamples;
+uniform vec2 u_pixelJitter;
+uniform float u_edgeAntialiasing;
+uniform float u_environmentIntensity;
+uniform sampler2D u_environmentMap;
+uniform samplerCube u_environmentCube;
+uniform float u_causticsIntensity;
+uniform sampler2D u_causticsMap;
 uniform sampler2D u_backgroundTexture;
+uniform vec4 u_backgroundTransform;
+uniform float u_backgroundWrap;
+uniform float u_backgroundDecoded;
+uniform float u_refractSceneLayer;
+uniform sampler2D u_sceneLayer;
+uniform float u_linearOutput;
 
 varying vec2 v_uv;
 
-#define PI 3.14159265359
+#define MAX_SPECTRAL_SAMPLES 16
+#define ROUGHNESS_TAPS 12
+#define CAUSTICS_RANGE 4.0
+#define MAX_LIGHTS 4
+#define MIN_SPECULAR_ROUGHNESS 0.08
+#define FILM_SAMPLES 8
+#define MAX_PIXEL_SAMPLES 16
+
+// Lights: 0 directional (vector is the direction toward the light),
+// 1 point and 2 spherical area (vector is the position)
+uniform float u_lightCount;
+uniform float u_lightType[MAX_LIGHTS];
+uniform vec3 u_lightVector[MAX_LIGHTS];
+uniform vec3 u_lightColor[MAX_LIGHTS];
+uniform float u_lightRadius[MAX_LIGHTS];
 
-// Noise function for surface perturbations
-float noise(vec2 p) {
-    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+${getGlassCommonSource(hooks)}
+${toneMappingSource}
+// Piecewise gaussian used by the analytic CIE 1931 fit (Wyman et al. 2013)
+float cieLobe(float wavelength, float mu, float sigmaLow, float sigmaHigh) {
+    float t = (wavelength - mu) / (wavelength < mu ? sigmaLow : sigmaHigh);
+    return exp(-0.5 * t * t);
 }
 
-float fbm(vec2 p) {
-    float value = 0.0;
-    float amplitude = 0.5;
-    float frequency = 1.0;
+// CIE color matching functions converted to linear sRGB
+vec3 wavelengthToRGB(float wavelength) {
+    vec3 xyz = vec3(
+        1.056 * cieLobe(wavelength, 599.8, 37.9, 31.0) +
+        0.362 * cieLobe(wavelength, 442.0, 16.0, 26.7) -
+        0.065 * cieLobe(wavelength, 501.1, 20.4, 26.2),
+        0.821 * cieLobe(wavelength, 568.8, 46.9, 40.5) +
+        0.286 * cieLobe(wavelength, 530.9, 16.3, 31.1),
+        1.217 * cieLobe(wavelength, 437.0, 11.8, 36.0) +
+        0.681 * cieLobe(wavelength, 459.0, 26.0, 13.8)
+    );
     
-    for(int i = 0; i < 4; i++) {
-        value += amplitude * noise(p * frequency);
-        amplitude *= 0.5;
-        frequency *= 2.0;
-    }
-    return value;
+    mat3 xyzToRGB = mat3(
+         3.2406, -0.9689,  0.0557,
+        -1.5372,  1.8758, -0.2040,
+        -0.4986,  0.0415,  1.0570
+    );
+    return max(xyzToRGB * xyz, 0.0);
 }
 
-// Ray-sphere intersection
-vec2 intersectSphere(vec3 rayOrigin, vec3 rayDir, vec3 sphereCenter, float radius) {
-    vec3 oc = rayOrigin - sphereCenter;
-    float b = dot(oc, rayDir);
-    float c = dot(oc, oc) - radius * radius;
-    float discriminant = b * b - c;
-    
-    if (discriminant < 0.0) return vec2(-1.0);
-    
-    float sqrt_discriminant = sqrt(discriminant);
-    float t1 = -b - sqrt_discriminant;
-    float t2 = -b + sqrt_discriminant;
-    
-    return vec2(t1, t2);
+// Share of the observed light that is s polarized relative to the plane
+// through the view ray and a surface normal. Modes: 0 unpolarized, 1 s only,
+// 2 p only, 3 through a linear polarizer in front of the viewer.
+float getPolarizationWeight(vec3 viewDir, vec3 normal) {
+    if (u_polarizationMode < 0.5) return 0.5;
+    if (u_polarizationMode < 1.5) return 1.0;
+    if (u_polarizationMode < 2.5) return 0.0;
+    
+    // At normal incidence s and p are indistinguishable
+    vec3 sAxis = cross(viewDir, normal);
+    if (dot(sAxis, sAxis) < 1e-8) return 0.5;
+    
+    vec3 polarizer = vec3(cos(u_polarizerAngle), sin(u_polarizerAngle), 0.0);
+    float along = dot(polarizer, normalize(sAxis));
+    return along * along;
 }
 
-// Ray-cylinder intersection (infinite height)
-vec2 intersectCylinder(vec3 rayOrigin, vec3 rayDir, vec3 cylinderCenter, float radius) {
-    vec2 ro = rayOrigin.xy - cylinderCenter.xy;
-    vec2 rd = rayDir.xy;
-    
-    float a = dot(rd, rd);
-    float b = 2.0 * dot(ro, rd);
-    float c = dot(ro, ro) - radius * radius;
-    
-    float discriminant = b * b - 4.0 * a * c;
-    if (discriminant < 0.0) return vec2(-1.0);
-    
-    float sqrt_discriminant = sqrt(discriminant);
-    float t1 = (-b - sqrt_discriminant) / (2.0 * a);
-    float t2 = (-b + sqrt_discriminant) / (2.0 * a);
-    
-    return vec2(t1, t2);
+float polarize(vec2 sp, float sWeight) {
+    return mix(sp.y, sp.x, sWeight);
 }
 
-// Get sphere normal at point
-vec3 getSphereNormal(vec3 point, vec3 center) {
-    return normalize(point - center);
+// Film thickness in nanometres at a surface point. The variation swirls
+// with the object, drifts over time and drains toward the bottom.
+float getFilmThickness(vec3 position) {
+    vec2 local = ((position - vec3(u_mousePos, 0.0)) * u_objectRotation).xy / max(u_glassSize, 1e-3);
+    float t = u_time * u_filmFlowSpeed;
+    float swirl = 0.5 * sin(local.x * 7.0 + 1.5 * sin(local.y * 5.0 + t) + t * 0.7) +
+        0.5 * sin(local.y * 9.0 + 1.5 * sin(local.x * 6.0 - t * 0.8));
+    return max(u_filmThickness + u_filmVariation * (0.7 * swirl - 0.3 * local.y), 0.0);
 }
 
-// Get cylinder normal at point
-vec3 getCylinderNormal(vec3 point, vec3 center) {
-    vec3 toPoint = point - center;
-    return normalize(vec3(toPoint.xy, 0.0));
+// Airy sum of the multiple reflections inside the film for one polarization
+float airyReflectance(float r12, float r23, float phase) {
+    float interference = 2.0 * r12 * r23 * cos(phase);
+    return (r12 * r12 + r23 * r23 + interference) / (1.0 + r12 * r12 * r23 * r23 + interference);
 }
 
-// 3D refraction using Snell's law
-vec3 refract3D(vec3 incident, vec3 normal, float eta) {
-    float cosI = dot(-incident, normal);
-    float sinT2 = eta * eta * (1.0 - cosI * cosI);
-    
-    if(sinT2 >= 1.0) {
-        // Total internal reflection
-        return reflect(incident, normal);
+// Reflectance of air, film and substrate at one wavelength for s and p
+// polarization
+vec2 thinFilmReflectance(float cosTheta, float filmThickness, float wavelength, float ior) {
+    float sin2 = 1.0 - cosTheta * cosTheta;
+    float n2 = u_filmIndex;
+    float cosFilm = sqrt(max(1.0 - sin2 / (n2 * n2), 0.0));
+    float cosSubstrate = sqrt(max(1.0 - sin2 / (ior * ior), 0.0));
+    
+    float rs12 = (cosTheta - n2 * cosFilm) / (cosTheta + n2 * cosFilm);
+    float rp12 = (n2 * cosTheta - cosFilm) / (n2 * cosTheta + cosFilm);
+    float rs23 = (n2 * cosFilm - ior * cosSubstrate) / (n2 * cosFilm + ior * cosSubstrate);
+    float rp23 = (ior * cosFilm - n2 * cosSubstrate) / (ior * cosFilm + n2 * cosSubstrate);
+    float phase = 4.0 * PI * n2 * filmThickness * cosFilm / wavelength;
+    
+    return vec2(airyReflectance(rs12, rs23, phase), airyReflectance(rp12, rp23, phase));
+}
+
+// Surface reflectance as a color, with interference when the material has
+// a thin film
+vec3 getSurfaceReflectance(float cosTheta, float ior, vec3 position, float sWeight) {
+#ifndef USE_THIN_FILM
+    return vec3(polarize(fresnelDielectric(cosTheta, ior), sWeight));
+#else
+    float filmThickness = getFilmThickness(position);
+    vec3 reflectance = vec3(0.0);
+    vec3 weight = vec3(0.0);
+    
+    for (int i = 0; i < FILM_SAMPLES; i++) {
+        float wavelength = mix(400.0, 700.0, (float(i) + 0.5) / float(FILM_SAMPLES));
+        vec3 color = wavelengthToRGB(wavelength);
+        reflectance += polarize(thinFilmReflectance(cosTheta, filmThickness, wavelength, ior), sWeight) * color;
+        weight += color;
     }
     
-    float cosT = sqrt(1.0 - sinT2);
-    return eta * incident + (eta * cosI - cosT) * normal;
-}
-
-// Fresnel reflection coefficient
-float fresnel(float cosTheta, float n1, float n2) {
-    float r0 = pow((n1 - n2) / (n1 + n2), 2.0);
-    return r0 + (1.0 - r0) * pow(1.0 - cosTheta, 5.0);
-}
-
-// Generate different background patterns
-vec3 getBackgroundPattern(vec2 uv, float patternType) {
-    if (patternType < 0.5) {
-        // Black and white stripes
-        float stripeWidth = 0.1;
-        float stripe = step(0.5, mod(uv.x / stripeWidth, 1.0));
-        return vec3(stripe);
-    } else if (patternType < 1.5) {
-        // Grid pattern
-        float gridSize = 0.05;
-        vec2 grid = step(0.5, mod(uv / gridSize, 1.0));
-        float pattern = max(grid.x, grid.y);
-        return vec3(pattern);
-    } else if (patternType < 2.5) {
-        // Concentric circles
-        float dist = length(uv - 0.5);
-        float rings = sin(dist * 50.0) * 0.5 + 0.5;
-        return vec3(rings);
-    } else {
-        // Texture pattern - sample from background texture
-        return texture2D(u_backgroundTexture, uv).rgb;
-    }
+    return clamp(reflectance / max(weight, vec3(1e-4)), 0.0, 1.0);
+#endif
 }
 
-// Ray trace through different glass shapes
-vec4 traceGlassShape(vec2 uv, vec2 mouseUV, float shapeType, float glassSize) {
-    vec3 rayOrigin = vec3(uv, 2.0);
-    vec3 rayDir = vec3(0.0, 0.0, -1.0);
-    vec3 glassCenter = vec3(mouseUV, 0.0);
-    
-    vec2 intersections;
-    vec3 normal1, normal2;
-    vec3 enterPoint, exitPoint;
-    
-    // Different glass shapes
-    if (shapeType < 0.5) {
-        // Sphere
-        intersections = intersectSphere(rayOrigin, rayDir, glassCenter, glassSize);
-        if (intersections.x < 0.0) return vec4(0.0);
-        
-        enterPoint = rayOrigin + rayDir * intersections.x;
-        exitPoint = rayOrigin + rayDir * intersections.y;
-        normal1 = getSphereNormal(enterPoint, glassCenter);
-        normal2 = -getSphereNormal(exitPoint, glassCenter);
-        
-    } else if (shapeType < 1.5) {
-        // Cylinder
-        intersections = intersectCylinder(rayOrigin, rayDir, glassCenter, glassSize);
-        if (intersections.x < 0.0) return vec4(0.0);
-        
-        enterPoint = rayOrigin + rayDir * intersections.x;
-        exitPoint = rayOrigin + rayDir * intersections.y;
-        normal1 = getCylinderNormal(enterPoint, glassCenter);
-        normal2 = -getCylinderNormal(exitPoint, glassCenter);
-        
-    } else if (shapeType < 2.5) {
-        // Convex lens (approximated as flattened sphere)
-        float lensRatio = 1.5;
-        vec3 lensCenter = vec3(mouseUV, 0.0);
-        intersections = intersectSphere(rayOrigin, rayDir, lensCenter, glassSize * lensRatio);
-        if (intersections.x < 0.0) return vec4(0.0);
-        
-        enterPoint = rayOrigin + rayDir * intersections.x;
-        exitPoint = rayOrigin + rayDir * intersections.y;
-        normal1 = getSphereNormal(enterPoint, lensCenter);
-        normal2 = -getSphereNormal(exitPoint, lensCenter);
-        
-        // Flatten the lens effect
-        normal1.z *= 0.3;
-        normal2.z *= 0.3;
-        normal1 = normalize(normal1);
-        normal2 = normalize(normal2);
-        
-    } else if (shapeType < 3.5) {
-        // Triangular prism (simplified)
-        float dist = length(uv - mouseUV);
-        if (dist > glassSize) return vec4(0.0);
+// GGX normal distribution function
+float distributionGGX(float NdotH, float alpha) {
+    float a2 = alpha * alpha;
+    float d = NdotH * NdotH * (a2 - 1.0) + 1.0;
+    return a2 / (PI * d * d);
+}
+
+// Height-correlated Smith visibility, G / (4 NdotL NdotV)
+float visibilitySmithGGX(float NdotL, float NdotV, float alpha) {
+    float a2 = alpha * alpha;
+    float lambdaV = NdotL * sqrt(NdotV * NdotV * (1.0 - a2) + a2);
+    float lambdaL = NdotV * sqrt(NdotL * NdotL * (1.0 - a2) + a2);
+    return 0.5 / max(lambdaV + lambdaL, 1e-5);
+}
+
+// Microfacet specular reflected toward the viewer by every light. Smooth
+// glass keeps a small minimum roughness so highlights stay visible.
+vec3 getSpecularLight(vec3 position, vec3 normal, vec3 viewDir, float roughness, float ior) {
+    float perceptual = max(roughness, MIN_SPECULAR_ROUGHNESS);
+    float alpha = perceptual * perceptual;
+    float NdotV = max(dot(normal, viewDir), 1e-4);
+    vec3 reflected = reflect(-viewDir, normal);
+    vec3 specular = vec3(0.0);
+    
+    for (int i = 0; i < MAX_LIGHTS; i++) {
+        if (float(i) >= u_lightCount) break;
         
-        // Create triangular shape effect
-        vec2 centered = uv - mouseUV;
-        float angle = atan(centered.y, centered.x);
-        float prismEffect = sin(angle * 3.0) * 0.3 + 0.7;
+        vec3 toLight = normalize(u_lightVector[i]);
+        float attenuation = 1.0;
         
-        if (dist > glassSize * prismEffect) return vec4(0.0);
+        if (u_lightType[i] > 0.5) {
+            vec3 offset = u_lightVector[i] - position;
+            float distance = length(offset);
+            
+            if (u_lightType[i] > 1.5) {
+                // Area light: shade the point on the sphere closest to the
+                // reflected ray and widen the lobe to conserve energy (Karis 2013)
+                vec3 centerToRay = dot(offset, reflected) * reflected - offset;
+                offset += centerToRay * clamp(u_lightRadius[i] / max(length(centerToRay), 1e-4), 0.0, 1.0);
+                float widened = clamp(alpha + u_lightRadius[i] / (2.0 * max(distance, 1e-4)), 0.0, 1.0);
+                attenuation = (alpha / widened) * (alpha / widened);
+            }
+            
+            toLight = normalize(offset);
+            attenuation /= max(distance * distance, 1e-4);
+        }
         
-        // Simplified prism normals
-        normal1 = normalize(vec3(sin(angle * 3.0), cos(angle * 3.0), 1.0));
-        normal2 = -normal1;
+        float NdotL = dot(normal, toLight);
+        if (NdotL <= 0.0) continue;
         
-    } else {
-        // Flat glass
-        float dist = length(uv - mouseUV);
-        if (dist > glassSize) return vec4(0.0);
+        vec3 halfway = normalize(toLight + viewDir);
+        float NdotH = max(dot(normal, halfway), 0.0);
+        float sWeight = getPolarizationWeight(viewDir, halfway);
+        vec3 F = getSurfaceReflectance(max(dot(halfway, viewDir), 0.0), ior, position, sWeight);
         
-        normal1 = vec3(0.0, 0.0, 1.0);
-        normal2 = vec3(0.0, 0.0, -1.0);
+        specular += distributionGGX(NdotH, alpha) * visibilitySmithGGX(NdotL, NdotV, alpha) *
+            F * NdotL * u_lightColor[i] * attenuation;
     }
     
-    // Add surface perturbations
-    vec3 perturbation = vec3(
-        fbm(uv * 20.0 + u_time * 0.1) * 0.02,
-        fbm(uv * 20.0 + u_time * 0.13) * 0.02,
-        0.0
+    return specular;
+}
+
+${patterns}
+
+// Textures, patterns and page colors are sRGB encoded; shading happens in
+// linear light and is encoded for display on output
+vec3 srgbToLinear(vec3 color) {
+    vec3 low = color / 12.92;
+    vec3 high = pow((color + 0.055) / 1.055, vec3(2.4));
+    return mix(low, high, step(vec3(0.04045), color));
+}
+
+// Background image placed by the fit mode, black outside it unless it tiles
+vec3 sampleBackgroundTexture(vec2 uv) {
+    vec2 imageUV = vec2(uv.x, 1.0 - uv.y) * u_backgroundTransform.xy + u_backgroundTransform.zw;
+    if (u_backgroundWrap > 1.5) {
+        imageUV = fract(imageUV);
+    } else if (u_backgroundWrap < 0.5 && (any(lessThan(imageUV, vec2(0.0))) || any(greaterThan(imageUV, vec2(1.0))))) {
+        return vec3(0.0);
+    }
+    return texture2D(u_backgroundTexture, imageUV).rgb;
+}
+
+// Background pattern the program was compiled for
+vec3 getBackgroundPattern(vec2 uv) {
+#if BACKGROUND_PATTERN == 0
+    // Black and white stripes
+    float stripeWidth = 0.1;
+    float stripe = step(0.5, mod(uv.x / stripeWidth, 1.0));
+    return vec3(stripe);
+#elif BACKGROUND_PATTERN == 1
+    // Grid pattern
+    float gridSize = 0.05;
+    vec2 grid = step(0.5, mod(uv / gridSize, 1.0));
+    float pattern = max(grid.x, grid.y);
+    return vec3(pattern);
+#elif BACKGROUND_PATTERN == 2
+    // Concentric circles
+    float dist = length(uv - 0.5);
+    float rings = sin(dist * 50.0) * 0.5 + 0.5;
+    return vec3(rings);
+#elif BACKGROUND_PATTERN == 3
+    // Texture pattern - the image's top row is at the top of the canvas
+    return sampleBackgroundTexture(uv);
+#else
+    return getCustomPattern(uv);
+#endif
+}
+
+// Background pattern in linear light. Textures stored as sRGB are decoded
+// when sampled; everything else is decoded here.
+vec3 getLinearBackground(vec2 uv) {
+    vec3 color = getBackgroundPattern(uv);
+#if BACKGROUND_PATTERN == 3
+    if (u_backgroundDecoded > 0.5) return color;
+#endif
+    return srgbToLinear(color);
+}
+
+// Background seen through the glass, including the objects drawn behind
+// this one when refraction passes through them
+vec3 getSceneBackground(vec2 uv) {
+    vec3 color = getLinearBackground(uv);
+#ifdef USE_SCENE_LAYER
+    if (u_refractSceneLayer > 0.5) {
+        // Layers hold linear radiance on the HDR path, display color otherwise
+        vec4 layer = textureLevelZero(u_sceneLayer, uv);
+        vec3 layerColor = u_linearOutput > 0.5 ? layer.rgb : srgbToLinear(layer.rgb);
+        color = mix(color, layerColor, layer.a);
+    }
+#endif
+    return color;
+}
+
+// Composite this object over the objects already drawn behind it
+vec4 compositeSceneLayer(vec4 color) {
+#ifdef USE_SCENE_LAYER
+#ifdef WEBGL2
+    vec4 layer = texelFetch(u_sceneLayer, ivec2(gl_FragCoord.xy), 0);
+#else
+    vec4 layer = texture2D(u_sceneLayer, v_uv);
+#endif
+    float alpha = color.a + layer.a * (1.0 - color.a);
+    vec3 rgb = (color.rgb * color.a + layer.rgb * layer.a * (1.0 - color.a)) / max(alpha, 1e-4);
+    return vec4(rgb, alpha);
+#else
+    return color;
+#endif
+}
+
+// Equirectangular lookup for a direction (+Y up, image top = sky)
+vec2 directionToEquirect(vec3 dir) {
+    return vec2(
+        atan(dir.z, dir.x) / (2.0 * PI) + 0.5,
+        0.5 - asin(clamp(dir.y, -1.0, 1.0)) / PI
     );
-    normal1 = normalize(normal1 + perturbation);
-    normal2 = normalize(normal2 + perturbation);
-    
-    return vec4(normal1, 1.0); // Return first normal for now
 }
 
-void main() {
-    vec2 uv = v_uv;
-    vec2 mouseUV = u_mousePos;
+// Radiance arriving from the environment along a reflected ray
+vec3 getEnvironmentColor(vec3 dir) {
+    vec3 color = vec3(0.9, 0.95, 1.0);
+    
+#if ENVIRONMENT_TYPE == 3
+    // Fallback environment built from the current background
+    vec2 envUV = directionToEquirect(dir);
+    return getLinearBackground(vec2(envUV.x, 1.0 - envUV.y)) * u_environmentIntensity;
+#elif ENVIRONMENT_TYPE == 2
+    color = textureCube(u_environmentCube, dir).rgb;
+#elif ENVIRONMENT_TYPE == 1
+    color = texture2D(u_environmentMap, directionToEquirect(dir)).rgb;
+#endif
+    
+    return srgbToLinear(color) * u_environmentIntensity;
+}
+
+// Light focused onto the background plane beyond what it would receive
+// without the glass, read from the caustics pass
+vec3 getCausticLight(vec2 uv) {
+#ifdef USE_CAUSTICS
+    vec3 energy = textureLevelZero(u_causticsMap, uv).rgb * CAUSTICS_RANGE;
+    return max(energy - 1.0, 0.0) * u_causticsIntensity;
+#else
+    return vec3(0.0);
+#endif
+}
+
+// Surface roughness at a point, optionally modulated by the roughness map
+// in the glass object's local space
+float getRoughness(vec2 uv, vec2 mouseUV, float glassSize) {
+    float roughness = u_roughness;
+#ifdef USE_ROUGHNESS_MAP
+    vec2 local = (vec3(uv - mouseUV, 0.0) * u_objectRotation).xy;
+    vec2 localUV = local / (2.0 * glassSize) + 0.5;
+    roughness *= texture2D(u_roughnessMap, localUV).r;
+#endif
+    return roughness;
+}
+
+// Frosted glass scatters transmitted light into a cone around the refracted
+// ray. Average the background over a golden-angle disk whose radius is the
+// width of that cone after the light has travelled scatterDistance.
+vec3 sampleRoughBackground(vec2 sampleUV, float roughness, float scatterDistance) {
+    float spread = tan(roughness * roughness * 0.6) * scatterDistance;
+    if (spread < 1e-4) {
+        return getSceneBackground(sampleUV);
+    }
     
-    vec4 glassInfo = traceGlassShape(uv, mouseUV, u_glassShape, u_glassSize);
+    // Rotate the disk per pixel to trade banding for fine grain
+    float rotation = noise(sampleUV * u_resolution) * 2.0 * PI;
+    vec3 color = vec3(0.0);
     
-    if (glassInfo.w < 0.5) {
-        gl_FragColor = vec4(0.0, 0.0, 0.0, 0.0);
-        return;
+    for (int i = 0; i < ROUGHNESS_TAPS; i++) {
+        float radius = sqrt((float(i) + 0.5) / float(ROUGHNESS_TAPS)) * spread;
+        float angle = float(i) * 2.39996323 + rotation;
+        color += getSceneBackground(sampleUV + radius * vec2(cos(angle), sin(angle)));
     }
     
-    vec3 normal = glassInfo.xyz;
-    
-    // Calculate view direction
-    vec3 viewDir = vec3(0.0, 0.0, 1.0);
-    float cosTheta = abs(dot(viewDir, normal));
+    return color / float(ROUGHNESS_TAPS);
+}
+
+// Whether the footprint below is the exact silhouette: the view is
+// orthographic and the object only turns about the viewing axis
+bool hasFlatFootprint() {
+    return u_cameraType < 0.5 && u_objectRotation[2][2] > 0.9999;
+}
+
+// Signed distance to the glass silhouette as seen by the viewer
+float getFootprintDistance(vec2 uv, vec2 mouseUV, float shapeType, float glassSize) {
+    vec2 p = (vec3(uv - mouseUV, 0.0) * u_objectRotation).xy;
+    
+    if (SHAPE_TYPE(shapeType) > 2.5 && SHAPE_TYPE(shapeType) < 3.5) {
+        // Prism: rectangle spanned by the apex edge, base and end caps
+        vec2 q = abs(rotateZ(vec3(p, 0.0), -u_prismRotation).xy) - vec2(glassSize);
+        return length(max(q, 0.0)) + min(max(q.x, q.y), 0.0);
+    } else if (SHAPE_TYPE(shapeType) > 4.5 && SHAPE_TYPE(shapeType) < 5.5) {
+        return sdRoundedRect(p, u_shapeSize, min(u_cornerRadius, min(u_shapeSize.x, u_shapeSize.y)));
+    } else if (SHAPE_TYPE(shapeType) > 5.5 && SHAPE_TYPE(shapeType) < 6.5) {
+        return sdSuperellipse(p, u_shapeSize, u_superellipseExponent);
+    } else if (SHAPE_TYPE(shapeType) > 6.5 && SHAPE_TYPE(shapeType) < 7.5) {
+        return sdStadium(p, u_shapeSize);
+    } else if (SHAPE_TYPE(shapeType) > 7.5 && SHAPE_TYPE(shapeType) < 8.5) {
+        return abs(length(p) - (u_shapeSize.x - u_tubeRadius)) - u_tubeRadius;
+    } else if (SHAPE_TYPE(shapeType) > 8.5) {
+        return sdCustomShape(p);
+    }
     
-    // Fresnel effect
-    float fresnelTerm = fresnel(cosTheta, 1.0, u_refractionIndex);
+    return length(p) - glassSize;
+}
+
+// Origin of the view ray through a pixel: parallel rays looking straight
+// into the canvas, or a pinhole camera looking down -Z
+vec3 getViewOrigin(vec2 uv) {
+    return u_cameraType > 0.5 ? u_cameraPosition : vec3(uv, 2.0);
+}
+
+vec3 getViewDirection(vec2 uv) {
+    if (u_cameraType < 0.5) return vec3(0.0, 0.0, -1.0);
+    return normalize(vec3((uv - 0.5) * 2.0 * u_cameraTanHalfFov, -1.0));
+}
+
+LightPath traceGlassShape(vec2 uv, vec2 mouseUV, float shapeType, float glassSize, float ior) {
+    return traceGlassRay(getViewOrigin(uv), getViewDirection(uv), vec3(mouseUV, 0.0), shapeType, glassSize, ior);
+}
+
+// Glass seen along one view ray, as straight color and opacity. The
+// opacity is zero where the ray misses.
+vec4 shadeGlass(vec2 uv) {
+    vec2 mouseUV = u_mousePos;
     
-    // Chromatic dispersion - different wavelengths refract differently
-    float redEta = 1.0 / (u_refractionIndex - u_dispersion);
-    float greenEta = 1.0 / u_refractionIndex;
-    float blueEta = 1.0 / (u_refractionIndex + u_dispersion);
+    LightPath primary = traceGlassShape(uv, mouseUV, float(GLASS_SHAPE), u_glassSize, u_refractionIndex);
+    if (primary.hit < 0.5) return vec4(0.0);
     
-    // Calculate refracted rays for each color channel
-    vec3 refractedR = refract3D(-viewDir, normal, redEta);
-    vec3 refractedG = refract3D(-viewDir, normal, greenEta);
-    vec3 refractedB = refract3D(-viewDir, normal, blueEta);
+    vec3 normal = primary.entryNormal;
     
-    // Calculate distortion based on glass geometry and thickness
-    float distortionScale = u_thickness * 0.3;
+    // Direction from the surface toward the viewer
+    vec3 viewDir = -getViewDirection(uv);
+    float cosTheta = abs(dot(viewDir, normal));
     
-    // For sphere and lens, create strong curvature distortion
-    if (u_glassShape < 2.5) {
-        vec2 centerOffset = uv - mouseUV;
-        float distFromCenter = length(centerOffset);
-        float curvatureEffect = 1.0 + distFromCenter * distFromCenter * 2.0;
-        distortionScale *= curvatureEffect;
+    // Exact Fresnel reflectance at the entry, tinted by interference in a
+    // thin film. A film changes how much light enters, so the transmitted
+    // share is rescaled from the bare surface to the coated one.
+    float sWeight = getPolarizationWeight(viewDir, normal);
+    vec3 reflectance = getSurfaceReflectance(cosTheta, u_refractionIndex, primary.entryPoint, sWeight);
+    vec3 filmTransmission = (1.0 - reflectance) / max(1.0 - polarize(primary.reflectance, sWeight), 1e-4);
+    
+    // Chromatic dispersion - trace one light path per wavelength sample and
+    // weight each background sample by the CIE color matching functions
+    float roughness = getRoughness(uv, mouseUV, u_glassSize);
+    vec3 spectralColor = vec3(0.0);
+    vec3 spectralWeight = vec3(0.0);
+    float trapped = 0.0;
+    
+    for (int i = 0; i < MAX_SPECTRAL_SAMPLES; i++) {
+        if (float(i) >= u_spectralSamples) break;
+        
+        float wavelength = mix(400.0, 700.0, (float(i) + 0.5) / u_spectralSamples);
+        LightPath path = traceGlassShape(uv, mouseUV, float(GLASS_SHAPE), u_glassSize, getRefractiveIndex(wavelength));
+        
+        // Follow the exit ray to the background plane
+        vec3 landing = getBackgroundHit(path.exitPoint, path.exitDir);
+        vec2 sampleUV = getBackgroundUV(landing);
+        vec3 weight = wavelengthToRGB(wavelength);
+        
+        vec3 transmittance = getTransmittance(path.pathLength);
+        
+        vec3 background = sampleRoughBackground(sampleUV, roughness, path.pathLength + distance(path.exitPoint, landing));
+        background += getCausticLight(sampleUV);
+        
+        // Energy that survived both interfaces, or that is still bouncing
+        // inside when the path gives up
+        float transmission = polarize(path.transmission, sWeight);
+        spectralColor += background * transmittance * transmission * (1.0 - path.trapped) * weight;
+        spectralWeight += weight;
+        trapped += path.trapped * transmission;
     }
     
-    vec2 offsetR = refractedR.xy * distortionScale;
-    vec2 offsetG = refractedG.xy * distortionScale;
-    vec2 offsetB = refractedB.xy * distortionScale;
-    
-    // Sample background with strong geometric distortion
-    vec3 bgColorR = getBackgroundPattern(uv + offsetR, u_backgroundPattern);
-    vec3 bgColorG = getBackgroundPattern(uv + offsetG, u_backgroundPattern);
-    vec3 bgColorB = getBackgroundPattern(uv + offsetB, u_backgroundPattern);
+    vec3 refractedColor = spectralColor / max(spectralWeight, vec3(1e-4)) * filmTransmission;
+    trapped /= u_spectralSamples;
+    {
+${hooks.refraction || ''}
+    }
     
-    vec3 refractedColor = vec3(bgColorR.r, bgColorG.g, bgColorB.b);
+    // Reflection color from the environment along the mirrored view ray
+    vec3 reflectionColor = getEnvironmentColor(reflect(-viewDir, normal));
     
-    // Reflection color
-    vec3 reflectionColor = vec3(0.9, 0.95, 1.0);
+    // Reflected and transmitted light add up. Light trapped by total internal
+    // reflection eventually leaves toward the viewer as a bright rim.
+    vec3 finalColor = refractedColor + reflectionColor * (reflectance + trapped * filmTransmission);
     
-    // Combine reflection and refraction
-    vec3 finalColor = mix(refractedColor, reflectionColor, fresnelTerm);
+    // Highlights from the scene lights
+    vec3 specular = getSpecularLight(primary.entryPoint, normal, viewDir, roughness, u_refractionIndex);
+    finalColor += specular;
     
-    // Add caustic effects
-    float caustic = pow(max(0.0, dot(normal, vec3(0.5, 0.5, 1.0))), 3.0);
-    finalColor += caustic * 0.4 * vec3(1.0, 1.0, 0.9);
+    return vec4(finalColor, 1.0);
+}
+
+// Caustic cast onto the background outside the glass. The rearmost object
+// draws it once for the whole scene.
+vec4 shadeBackground(vec2 uv) {
+#ifdef USE_SCENE_LAYER
+    vec3 caustic = vec3(0.0);
+#else
+    vec3 caustic = getCausticLight(uv);
+#endif
+    float causticStrength = min(max(caustic.r, max(caustic.g, caustic.b)), 1.0);
+    return vec4(caustic / max(causticStrength, 1e-4), causticStrength);
+}
+
+// Straight-alpha A over B
+vec4 over(vec4 a, vec4 b) {
+    float alpha = a.a + b.a * (1.0 - a.a);
+    return vec4((a.rgb * a.a + b.rgb * b.a * (1.0 - a.a)) / max(alpha, 1e-4), alpha);
+}
+
+// One sample of the pixel. Where the footprint is exact, the silhouette is
+// anti-aliased by the fraction of the pixel it covers, measured from the
+// signed distance and its change across one pixel. Pixels just outside the
+// silhouette are shaded at the nearest point inside it.
+vec4 shadePixel(vec2 uv) {
+    vec4 background = shadeBackground(uv);
+    
+    if (u_edgeAntialiasing < 0.5 || !hasFlatFootprint()) {
+        return over(shadeGlass(uv), background);
+    }
     
-    // Glass transparency
-    float dist = length(uv - mouseUV);
-    float glassMask = smoothstep(u_glassSize + 0.02, u_glassSize - 0.02, dist);
+    vec2 texel = 1.0 / u_resolution;
+    float dist = getFootprintDistance(uv, u_mousePos, float(GLASS_SHAPE), u_glassSize);
+    vec2 perPixel = 0.5 * vec2(
+        getFootprintDistance(uv + vec2(texel.x, 0.0), u_mousePos, float(GLASS_SHAPE), u_glassSize) -
+        getFootprintDistance(uv - vec2(texel.x, 0.0), u_mousePos, float(GLASS_SHAPE), u_glassSize),
+        getFootprintDistance(uv + vec2(0.0, texel.y), u_mousePos, float(GLASS_SHAPE), u_glassSize) -
+        getFootprintDistance(uv - vec2(0.0, texel.y), u_mousePos, float(GLASS_SHAPE), u_glassSize)
+    );
+    float pixelWidth = max(abs(perPixel.x) + abs(perPixel.y), 1e-6);
+    float coverage = clamp(0.5 - dist / pixelWidth, 0.0, 1.0);
+    if (coverage <= 0.0) return background;
+    
+    vec2 gradient = perPixel / texel;
+    vec2 shadeUV = dist > -0.5 * pixelWidth
+        ? uv - gradient * (dist + 0.5 * pixelWidth) / max(dot(gradient, gradient), 1e-8)
+        : uv;
+    
+    vec4 glass = shadeGlass(shadeUV);
+    glass.a *= coverage;
+    return over(glass, background);
+}
+
+void main() {
+    // Average the samples premultiplied, so coverage averages correctly
+    vec4 color = vec4(0.0);
     
-    // Make glass more transparent to show background properly
-    float alpha = glassMask * 0.4;
+    for (int i = 0; i < MAX_PIXEL_SAMPLES; i++) {
+        if (float(i) >= u_pixelSamples) break;
+        
+        // R2 low-discrepancy offsets inside the pixel, the first one centered
+        vec2 offset = fract(vec2(0.5) + float(i) * vec2(0.7548776662, 0.5698402910)) - 0.5;
+        vec4 pixelSample = shadePixel(v_uv + (offset + u_pixelJitter) / u_resolution);
+        color += vec4(pixelSample.rgb * pixelSample.a, pixelSample.a);
+    }
     
-    // Edge enhancement for glass rim effect
-    float edge = 1.0 - smoothstep(u_glassSize - 0.005, u_glassSize, dist);
-    alpha += edge * 0.6;
+    color /= u_pixelSamples;
     
-    // Ensure the glass effect blends properly with background
-    gl_FragColor = vec4(finalColor, alpha);
+    // The HDR path keeps linear radiance for the output pass to tone map
+    vec4 fragColor = vec4(color.rgb / max(color.a, 1e-4), color.a);
+    {
+        vec2 uv = v_uv;
+${hooks.color || ''}
+    }
+    if (u_linearOutput < 0.5) {
+        fragColor.rgb = encodeDisplayColor(fragColor.rgb);
+    }
+    gl_FragColor = compositeSceneLayer(fragColor);
 }
-`; 
\ No newline at end of file
+`;
\ No newline at end of file
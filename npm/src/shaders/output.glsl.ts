@@ -0,0 +1,58 @@
+/**
+ * Conversion of linear radiance to display color: exposure, tone mapping
+ * (0 none, 1 Reinhard, 2 ACES) and sRGB encoding
+ */
+export const toneMappingSource = `
+uniform float u_toneMapping;
+uniform float u_exposure;
+
+vec3 linearToSrgb(vec3 color) {
+    vec3 low = color * 12.92;
+    vec3 high = 1.055 * pow(color, vec3(1.0 / 2.4)) - 0.055;
+    return mix(low, high, step(vec3(0.0031308), color));
+}
+
+// Narkowicz's fit of the ACES filmic curve
+vec3 acesFilmic(vec3 color) {
+    return (color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14);
+}
+
+vec3 encodeDisplayColor(vec3 color) {
+    color = max(color * u_exposure, 0.0);
+    if (u_toneMapping > 1.5) {
+        color = acesFilmic(color);
+    } else if (u_toneMapping > 0.5) {
+        color = color / (1.0 + color);
+    }
+    return linearToSrgb(clamp(color, 0.0, 1.0));
+}
+`;
+
+/**
+ * Draw an offscreen image to the canvas as straight color. Premultiplied
+ * images are divided by their alpha, and linear HDR images are encoded for
+ * display.
+ */
+export const outputFragmentSource = `
+precision highp float;
+
+uniform sampler2D u_image;
+uniform float u_premultiplied;
+uniform float u_encode;
+
+varying vec2 v_uv;
+
+${toneMappingSource}
+void main() {
+#ifdef WEBGL2
+    vec4 color = texelFetch(u_image, ivec2(gl_FragCoord.xy), 0);
+#else
+    vec4 color = texture2D(u_image, v_uv);
+#endif
+    vec3 rgb = u_premultiplied > 0.5 ? color.rgb / max(color.a, 1e-4) : color.rgb;
+    if (u_encode > 0.5) {
+        rgb = encodeDisplayColor(rgb);
+    }
+    gl_FragColor = vec4(rgb, color.a);
+}
+`;
\ No newline at end of file
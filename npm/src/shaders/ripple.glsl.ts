@@ -0,0 +1,97 @@
+/**
+ * Height and velocity are packed as 16-bit values in [-1, 1] so the wave
+ * simulation runs on plain RGBA8 render targets.
+ */
+const ripplePackingSource = `
+vec2 packSigned(float value) {
+    float scaled = clamp(value * 0.5 + 0.5, 0.0, 1.0) * 255.0;
+    return vec2(floor(scaled) / 255.0, fract(scaled));
+}
+
+float unpackSigned(vec2 bytes) {
+    return (bytes.x + bytes.y / 255.0) * 2.0 - 1.0;
+}
+
+// x: surface height, y: vertical velocity
+vec2 readState(vec2 uv) {
+    vec4 texel = texture2D(u_state, uv);
+    return vec2(unpackSigned(texel.rg), unpackSigned(texel.ba));
+}
+`;
+
+/**
+ * One step of the wave equation on a height field, with drops injected
+ * as smooth cosine bumps.
+ */
+export const rippleUpdateFragmentSource = `
+precision highp float;
+
+#define PI 3.14159265359
+#define MAX_DROPS 8
+
+uniform sampler2D u_state;
+uniform vec2 u_gridSize;
+uniform float u_waveSpeed;
+uniform float u_damping;
+uniform float u_dropRadius;
+uniform float u_dropCount;
+uniform vec3 u_drops[MAX_DROPS];
+
+varying vec2 v_uv;
+
+${ripplePackingSource}
+void main() {
+    vec2 texel = 1.0 / u_gridSize;
+    vec2 state = readState(v_uv);
+
+    float average = (
+        readState(v_uv + vec2(texel.x, 0.0)).x +
+        readState(v_uv - vec2(texel.x, 0.0)).x +
+        readState(v_uv + vec2(0.0, texel.y)).x +
+        readState(v_uv - vec2(0.0, texel.y)).x
+    ) * 0.25;
+
+    // Accelerate toward the neighbourhood average, then lose some energy
+    state.y += (average - state.x) * 2.0 * u_waveSpeed;
+    state.y *= 1.0 - u_damping;
+    state.x += state.y;
+
+    for (int i = 0; i < MAX_DROPS; i++) {
+        if (float(i) >= u_dropCount) break;
+
+        // Grid cells are square on screen, so measure in cells
+        float dist = length((v_uv - u_drops[i].xy) * u_gridSize) / u_dropRadius;
+        if (dist < 1.0) {
+            state.x += u_drops[i].z * (0.5 + 0.5 * cos(PI * dist));
+        }
+    }
+
+    gl_FragColor = vec4(packSigned(state.x), packSigned(state.y));
+}
+`;
+
+/**
+ * Surface slope of the simulated height field, stored so that zero slope is
+ * exactly representable and the map can be sampled with linear filtering
+ */
+export const rippleSlopeFragmentSource = `
+precision highp float;
+
+#define SLOPE_SCALE 8.0
+
+uniform sampler2D u_state;
+uniform vec2 u_gridSize;
+
+varying vec2 v_uv;
+
+${ripplePackingSource}
+void main() {
+    vec2 texel = 1.0 / u_gridSize;
+    vec2 slope = vec2(
+        readState(v_uv + vec2(texel.x, 0.0)).x - readState(v_uv - vec2(texel.x, 0.0)).x,
+        readState(v_uv + vec2(0.0, texel.y)).x - readState(v_uv - vec2(0.0, texel.y)).x
+    ) * 0.5 * SLOPE_SCALE;
+
+    gl_FragColor = vec4((clamp(slope, -1.0, 1.0) * 127.0 + 128.0) / 255.0, 0.0, 1.0);
+}
+`;
\ No newline at end of file
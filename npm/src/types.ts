@@ -1,12 +1,101 @@
 /**
  * Glass shape types available in the physics engine
  */
-export type GlassShape = 'sphere' | 'cylinder' | 'lens' | 'prism' | 'flat';
+export type GlassShape =
+  | 'sphere'
+  | 'cylinder'
+  | 'lens'
+  | 'prism'
+  | 'flat'
+  | 'roundedRect'
+  | 'squircle'
+  | 'capsule'
+  | 'torus'
+  | 'custom';
 
 /**
  * Background pattern types for demonstrating distortion effects
  */
-export type BackgroundPattern = 'stripes' | 'grid' | 'circles' | 'texture';
+export type BackgroundPattern = 'stripes' | 'grid' | 'circles' | 'texture' | (string & {});
+
+/**
+ * Value of a custom uniform: a float, or a vec2, vec3 or vec4
+ */
+export type UniformValue =
+  | number
+  | [number, number]
+  | [number, number, number]
+  | [number, number, number, number];
+
+/**
+ * Background pattern written in GLSL. The source is the body of
+ * `vec3 pattern(vec2 uv)`, where uv runs from (0, 0) at the bottom left of
+ * the canvas to (1, 1) at the top right, and may read `u_time`,
+ * `u_resolution` and its own uniforms.
+ */
+export interface PatternDefinition {
+  source: string;
+  /** Uniforms declared for the pattern, with their initial values */
+  uniforms?: Record<string, UniformValue>;
+}
+
+/**
+ * Custom GLSL injected into the glass fragment shader. Statements run in
+ * linear light and may read `uv`, the canvas position from (0, 0) at the
+ * bottom left to (1, 1) at the top right, `u_time` and the hook uniforms.
+ * Caustics are traced without the hooks.
+ */
+export interface ShaderHooks {
+  /** Functions and constants added ahead of the renderer's own GLSL */
+  declarations?: string;
+  /** Statements that may change `vec3 normal`, the surface normal used at every interface */
+  normal?: string;
+  /** Statements that may change `vec3 refractedColor`, the light transmitted through the glass */
+  refraction?: string;
+  /** Statements that may change `vec4 fragColor`, the pixel's straight color and opacity before tone mapping */
+  color?: string;
+  /** Uniforms declared for the hooks, with their initial values */
+  uniforms?: Record<string, UniformValue>;
+  /** Edit the complete fragment shader source before it compiles */
+  onBeforeCompile?: (source: string) => string;
+}
+
+/**
+ * Wavelength-dependent refractive index models. Cauchy and Sellmeier
+ * coefficients expect wavelengths in micrometres.
+ */
+export type DispersionModel =
+  | { type: 'cauchy'; a: number; b: number; c?: number }
+  | { type: 'sellmeier'; b: [number, number, number]; c: [number, number, number] }
+  | { type: 'abbe'; nD: number; abbeNumber: number };
+
+/**
+ * A transparent coating whose reflections interfere, as in soap bubbles,
+ * oil slicks and anti-reflective lens coatings
+ */
+export interface ThinFilmConfig {
+  /** Film thickness in nanometres */
+  thickness: number;
+  refractionIndex: number;
+  /** Amplitude of the swirling thickness variation, in nanometres */
+  variation?: number;
+  /** How fast the variation drifts when animation is running */
+  flowSpeed?: number;
+}
+
+/**
+ * Polarization of the light the viewer sees. 's' and 'p' keep only that
+ * component relative to each surface's plane of incidence; a number views
+ * the scene through a linear polarizer whose axis is at that angle in
+ * degrees, counterclockwise from the x axis.
+ */
+export type Polarization = 'unpolarized' | 's' | 'p' | number;
+
+/**
+ * Curve that maps linear radiance to display values. 'none' clips at
+ * white; 'reinhard' and the filmic 'aces' roll bright highlights off.
+ */
+export type ToneMapping = 'none' | 'reinhard' | 'aces';
 
 /**
  * Glass material presets with realistic optical properties
@@ -14,7 +103,15 @@ export type BackgroundPattern = 'stripes' | 'grid' | 'circles' | 'texture';
 export interface GlassMaterial {
   name: string;
   refractionIndex: number;
+  /** Artistic dispersion used when no dispersion model is given */
   dispersion: number;
+  dispersionModel?: DispersionModel;
+  /** Color light tends toward as it travels through the glass (RGB, 0 to 1) */
+  absorptionColor?: [number, number, number];
+  /** Beer–Lambert absorption per unit of path length (canvas height = 1) */
+  absorptionDensity?: number;
+  /** Coating that adds interference colors to the surface reflection */
+  thinFilm?: ThinFilmConfig;
   description: string;
 }
 
@@ -28,6 +125,197 @@ export interface MouseConfig {
   centerY?: number;
 }
 
+/**
+ * Image sources accepted for textures
+ */
+export type TextureSource = HTMLImageElement | HTMLCanvasElement | string;
+
+/**
+ * Elements a background can be uploaded from, including ones whose content
+ * changes over time
+ */
+export type BackgroundElement =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement
+  | ImageBitmap
+  | OffscreenCanvas
+  | VideoFrame;
+
+export type BackgroundSource = BackgroundElement | string;
+
+export interface BackgroundTextureConfig {
+  source: BackgroundSource;
+  /**
+   * Upload the source again whenever it may have changed: on every new
+   * video frame, or every rendered frame for other elements. Defaults to
+   * true for videos.
+   */
+  dynamic?: boolean;
+}
+
+/**
+ * How the background texture is placed on the canvas: scaled to cover or
+ * fit inside it keeping its aspect ratio, stretched to fill it, or repeated
+ * at its natural size in CSS pixels
+ */
+export type BackgroundFit = 'cover' | 'contain' | 'fill' | 'tile';
+
+export interface BackgroundFitConfig {
+  mode: BackgroundFit;
+  /** Shift of the image as a fraction of the canvas size, +y down (default [0, 0]) */
+  offset?: [number, number];
+  /** Size multiplier applied after fitting (default 1) */
+  scale?: number;
+}
+
+/**
+ * Page content refracted by the glass. The element's subtree is captured
+ * into the background texture, aligned with where it sits behind the canvas.
+ */
+export interface BackdropConfig {
+  /** Element, or a selector for it, whose content the glass refracts */
+  element: HTMLElement | string;
+  /** Capture again when the element's content changes (default true) */
+  observeMutations?: boolean;
+  /** Realign the capture when the page or a scroll container scrolls (default true) */
+  observeScroll?: boolean;
+  /** Capture again when the element, the canvas or the window resizes (default true) */
+  observeResize?: boolean;
+}
+
+/**
+ * Environment reflected by the glass surface
+ */
+export interface EnvironmentConfig {
+  /** Equirectangular image, or six cubemap faces in +X, -X, +Y, -Y, +Z, -Z order */
+  source?: TextureSource | TextureSource[];
+  intensity?: number;
+  /** Reflect the current background when no source is given */
+  fromBackground?: boolean;
+}
+
+/**
+ * Triangular prism geometry
+ */
+export interface PrismConfig {
+  /** Angle between the two refracting faces, in degrees */
+  apexAngle?: number;
+  /** Rotation about the viewing axis, in degrees */
+  rotation?: number;
+}
+
+/**
+ * Footprint of the rounded rectangle, squircle, capsule and torus shapes,
+ * in the same canvas units as size
+ */
+export interface ShapeDimensions {
+  /** Defaults to 3.2 × size (torus: 2 × size) */
+  width?: number;
+  /** Defaults to 2 × size */
+  height?: number;
+  /** Rounded rectangle corner radius, defaults to 0.5 × size */
+  cornerRadius?: number;
+  /** Squircle exponent, 2 is an ellipse and larger values approach a rectangle */
+  exponent?: number;
+  /** Torus tube radius, defaults to 0.35 × size */
+  tubeRadius?: number;
+}
+
+/**
+ * Source of a custom glass silhouette. SVG path coordinates are fitted into
+ * the footprint using the view box (defaults to a 24×24 icon grid).
+ */
+export type CustomShapeSource =
+  | { type: 'svgPath'; path: string; viewBox?: [number, number, number, number] }
+  | { type: 'alphaMask'; image: TextureSource }
+  | { type: 'heightMap'; image: TextureSource };
+
+/**
+ * Glass in the shape of a logo or icon, stretched over shapeDimensions
+ */
+export interface CustomShapeConfig {
+  source: CustomShapeSource;
+  /** Width of the rounded bevel as a fraction of the footprint, 0 for a flat top */
+  bevel?: number;
+}
+
+/**
+ * Orientation of a glass object: degrees about the viewing axis, Euler
+ * angles in degrees applied about X, then Y, then Z, or a quaternion
+ * [x, y, z, w]
+ */
+export type GlassRotation =
+  | number
+  | [number, number, number]
+  | [number, number, number, number];
+
+/**
+ * View used to trace rays into the scene. The orthographic view looks
+ * straight into the canvas; the perspective camera looks down -Z.
+ */
+export interface CameraConfig {
+  type: 'orthographic' | 'perspective';
+  /** Canvas coordinates with z toward the viewer, defaults to [0.5, 0.5, 2] */
+  position?: [number, number, number];
+  /** Vertical field of view in degrees, defaults to framing the canvas plane */
+  fov?: number;
+}
+
+/**
+ * An independent glass object in the scene. Unset properties fall back to
+ * the instance's shape, size and thickness; without a material it keeps the
+ * instance's refraction, dispersion and absorption.
+ */
+export interface GlassObjectConfig {
+  /** Generated when omitted */
+  id?: string;
+  shape?: GlassShape;
+  /** Center in canvas coordinates, 0 to 1 with y pointing up */
+  position?: [number, number];
+  size?: number;
+  rotation?: GlassRotation;
+  material?: GlassMaterial | string;
+  thickness?: number;
+  shapeDimensions?: ShapeDimensions;
+  /** Stacking order where objects overlap, higher is in front */
+  zIndex?: number;
+  /** Refract the objects behind this one, not just the background */
+  refractObjectsBehind?: boolean;
+}
+
+export type LightType = 'directional' | 'point' | 'area';
+
+/**
+ * A light source producing specular highlights on the glass. Positions use
+ * canvas coordinates with z pointing toward the viewer; area lights are
+ * spheres of the given radius.
+ */
+export interface LightConfig {
+  /** Generated when omitted */
+  id?: string;
+  type: LightType;
+  /** Direction pointing toward a directional light */
+  direction?: [number, number, number];
+  /** Position of a point or area light */
+  position?: [number, number, number];
+  color?: [number, number, number];
+  intensity?: number;
+  radius?: number;
+}
+
+/**
+ * Caustics cast by light focused through the glass
+ */
+export interface CausticsConfig {
+  enabled: boolean;
+  /** Direction pointing from the glass toward the light, defaults to the first directional light */
+  lightDirection?: [number, number, number];
+  intensity?: number;
+  /** Light rays traced per side of the sampling grid */
+  resolution?: number;
+}
+
 /**
  * Rendering performance configuration
  */
@@ -36,6 +324,23 @@ export interface PerformanceConfig {
   antialias?: boolean;
   preserveDrawingBuffer?: boolean;
   premultipliedAlpha?: boolean;
+  quality?: QualityPreset | QualityConfig;
+}
+
+/**
+ * Rendering quality. 'low' draws hard silhouettes with one ray per pixel,
+ * 'medium' anti-aliases silhouettes and refines static scenes over time, and
+ * 'high' also traces four rays per pixel.
+ */
+export type QualityPreset = 'low' | 'medium' | 'high';
+
+export interface QualityConfig {
+  /** Anti-alias glass silhouettes by the fraction of each pixel they cover */
+  edgeAntialiasing?: boolean;
+  /** View rays traced per pixel, 1 to 16 */
+  samples?: number;
+  /** Average jittered frames while nothing in the scene changes; needs animation off and half-float render targets */
+  temporalAccumulation?: boolean;
 }
 
 /**
@@ -45,6 +350,10 @@ export interface AnimationConfig {
   enabled: boolean;
   speed: number;
   surfaceRipples: boolean;
+  /** Fraction of ripple velocity lost per frame, 0 to 1 */
+  rippleDamping?: number;
+  /** Ripple wave speed as a fraction of the fastest stable speed, 0 to 1 */
+  rippleWaveSpeed?: number;
 }
 
 /**
@@ -54,13 +363,53 @@ export interface PhysicsGlassConfig {
   // Glass properties
   shape?: GlassShape;
   size?: number;
+  rotation?: GlassRotation;
   refractionIndex?: number;
   dispersion?: number;
+  /** Depth of lens, flat and extruded shapes along the viewing axis, in canvas units */
   thickness?: number;
+  spectralSamples?: number;
+  absorptionColor?: [number, number, number];
+  absorptionDensity?: number;
+  thinFilm?: ThinFilmConfig | null;
+  polarization?: Polarization;
+  roughness?: number;
+  roughnessMap?: HTMLImageElement | HTMLCanvasElement | string;
+  prism?: PrismConfig;
+  shapeDimensions?: ShapeDimensions;
+  customShape?: CustomShapeConfig | null;
+  
+  // Scene
+  /** Draw the glass described above, following the mouse */
+  primaryObject?: boolean;
+  objects?: GlassObjectConfig[];
   
   // Background
+  /** Distance of the background plane behind the glass, in canvas units */
+  backgroundDistance?: number;
   backgroundPattern?: BackgroundPattern;
-  backgroundTexture?: HTMLImageElement | HTMLCanvasElement | string;
+  /** Custom GLSL patterns by name, selectable as background patterns */
+  patterns?: Record<string, PatternDefinition>;
+  /** Custom GLSL injected into the glass shader */
+  shaderHooks?: ShaderHooks | null;
+  backgroundTexture?: BackgroundSource | BackgroundTextureConfig;
+  backgroundFit?: BackgroundFit | BackgroundFitConfig;
+  /** Refract page content instead of a supplied texture */
+  backdrop?: BackdropConfig | null;
+  
+  // Camera
+  camera?: CameraConfig;
+  
+  // Lighting and reflections
+  lights?: LightConfig[];
+  environment?: EnvironmentConfig;
+  caustics?: CausticsConfig;
+  
+  // Output
+  /** Tone mapping; other than 'none', renders to a half-float target where supported (default 'none') */
+  toneMapping?: ToneMapping;
+  /** Multiplier on linear radiance before tone mapping (default 1) */
+  exposure?: number;
   
   // Interaction
   mouse?: MouseConfig;
@@ -78,6 +427,23 @@ export interface PhysicsGlassConfig {
   onMaterialChange?: (material: GlassMaterial) => void;
 }
 
+/**
+ * Rendering backend the canvas got and what it offers. WebGL2 runs GLSL
+ * ES 3.00 shaders; WebGL1 is the fallback.
+ */
+export interface RendererCapabilities {
+  backend: 'webgl2' | 'webgl';
+  shadingLanguage: 'GLSL ES 3.00' | 'GLSL ES 1.00';
+  vertexArrayObjects: boolean;
+  /** Per-object uniforms are uploaded as uniform buffers */
+  uniformBuffers: boolean;
+  /** Tone mapping and temporal accumulation can render to half-float targets */
+  halfFloatRenderTargets: boolean;
+  maxTextureSize: number;
+  /** Texture units vertex shaders can sample; caustics need at least one */
+  vertexTextureUnits: number;
+}
+
 /**
  * Internal uniform values passed to shaders
  */
@@ -86,11 +452,96 @@ export interface ShaderUniforms {
   resolution: [number, number];
   mousePos: [number, number];
   refractionIndex: number;
-  dispersion: number;
+  dispersionModel: number;
+  dispersionB: [number, number, number];
+  dispersionC: [number, number, number];
+  spectralSamples: number;
+  absorptionColor: [number, number, number];
+  absorptionDensity: number;
+  filmThickness: number;
+  filmIndex: number;
+  filmVariation: number;
+  filmFlowSpeed: number;
+  polarizationMode: number;
+  polarizerAngle: number;
+  toneMapping: number;
+  exposure: number;
+  linearOutput: number;
+  pixelSamples: number;
+  pixelJitter: [number, number];
+  edgeAntialiasing: number;
+  roughness: number;
+  hasRoughnessMap: number;
+  environmentType: number;
+  environmentIntensity: number;
+  causticsIntensity: number;
+  prismApexAngle: number;
+  prismRotation: number;
+  shapeSize: [number, number];
+  cornerRadius: number;
+  superellipseExponent: number;
+  tubeRadius: number;
+  /** Column-major 3×3 rotation from the object's frame into canvas space */
+  objectRotation: Float32Array;
+  cameraType: number;
+  cameraPosition: [number, number, number];
+  cameraTanHalfFov: number;
+  rippleStrength: number;
+  backgroundDistance: number;
+  lightCount: number;
+  lightTypes: Float32Array;
+  lightVectors: Float32Array;
+  lightColors: Float32Array;
+  lightRadii: Float32Array;
   thickness: number;
   glassSize: number;
   glassShape: number;
   backgroundPattern: number;
+  backgroundTransform: [number, number, number, number];
+  backgroundWrap: number;
+  backgroundDecoded: number;
+}
+
+/**
+ * Offscreen framebuffer with a color texture attachment
+ */
+export interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+/**
+ * Texel storage of a render target's color texture
+ */
+export interface TextureFormat {
+  internalFormat: number;
+  type: number;
+}
+
+/**
+ * Choices compiled into a glass program as `#define`s instead of being
+ * tested per pixel
+ */
+export interface ShaderVariant {
+  shape: number;
+  pattern: number;
+  /** 0 sky color, 1 equirectangular, 2 cubemap, 3 background */
+  environment: number;
+  roughnessMap: boolean;
+  thinFilm: boolean;
+  caustics: boolean;
+  sceneLayer: boolean;
+}
+
+/**
+ * A linked program with the locations the renderer looks up
+ */
+export interface CompiledProgram {
+  program: WebGLProgram;
+  positionLocation: number;
+  uniformLocations: Record<string, WebGLUniformLocation | null>;
 }
 
 /**
@@ -99,8 +550,12 @@ export interface ShaderUniforms {
 export interface WebGLState {
   gl: WebGL2RenderingContext | WebGLRenderingContext;
   program: WebGLProgram;
+  positionLocation: number;
   uniformLocations: Record<string, WebGLUniformLocation | null>;
   backgroundTexture: WebGLTexture | null;
+  roughnessMap: WebGLTexture | null;
+  environmentMap: WebGLTexture | null;
+  customShapeMap: WebGLTexture | null;
 }
 
 /**
@@ -122,24 +577,62 @@ export interface PhysicsGlassAPI {
   // Configuration methods
   setShape(shape: GlassShape): void;
   setSize(size: number): void;
+  setRotation(rotation: GlassRotation, objectId?: string): void;
+  setCamera(camera: CameraConfig): void;
   setRefractionIndex(index: number): void;
   setDispersion(dispersion: number): void;
   setThickness(thickness: number): void;
+  setSpectralSamples(samples: number): void;
+  setAbsorption(color: [number, number, number], density: number): void;
+  setRoughness(roughness: number): void;
+  setRoughnessMap(map: HTMLImageElement | HTMLCanvasElement | string | null): Promise<void>;
+  setPrism(prism: PrismConfig): void;
+  setShapeDimensions(dimensions: ShapeDimensions): void;
+  setCustomShape(shape: CustomShapeConfig): Promise<void>;
   setBackgroundPattern(pattern: BackgroundPattern): void;
-  setBackgroundTexture(texture: HTMLImageElement | HTMLCanvasElement | string): Promise<void>;
+  registerPattern(name: string, source: string, uniforms?: Record<string, UniformValue>): void;
+  setPatternUniform(pattern: string, uniform: string, value: UniformValue): void;
+  setShaderHooks(hooks: ShaderHooks | null): void;
+  setShaderUniform(name: string, value: UniformValue): void;
+  setBackgroundDistance(distance: number): void;
+  setBackgroundTexture(texture: BackgroundSource | BackgroundTextureConfig): Promise<void>;
+  setBackgroundFit(fit: BackgroundFit | BackgroundFitConfig): void;
+  setBackdrop(backdrop: BackdropConfig | null): Promise<void>;
+  refreshBackdrop(): Promise<void>;
+  setEnvironment(environment: EnvironmentConfig | null): Promise<void>;
+  setEnvironmentIntensity(intensity: number): void;
+  setCaustics(caustics: Partial<CausticsConfig>): void;
+  setLights(lights: LightConfig[]): void;
+  updateLight(id: string | number, changes: Partial<LightConfig>): void;
+  
+  // Scene objects
+  addObject(object: GlassObjectConfig): string;
+  updateObject(id: string, changes: Partial<GlassObjectConfig>): void;
+  removeObject(id: string): void;
+  getObjects(): GlassObjectConfig[];
   
   // Material presets
   setMaterial(material: GlassMaterial | string): void;
+  setThinFilm(film: ThinFilmConfig | null): void;
+  setPolarization(polarization: Polarization): void;
+  setToneMapping(toneMapping: ToneMapping): void;
+  setExposure(exposure: number): void;
   getMaterials(): GlassMaterial[];
   
   // Mouse interaction
   setMousePosition(x: number, y: number): void;
   enableMouseTracking(enabled: boolean): void;
   
+  // Quality
+  setQuality(quality: QualityPreset | QualityConfig): void;
+  
   // Animation
   startAnimation(): void;
   stopAnimation(): void;
   setAnimationSpeed(speed: number): void;
+  enableRipples(enabled: boolean): void;
+  setRippleDynamics(damping: number, waveSpeed: number): void;
+  disturb(x: number, y: number, strength?: number): void;
   
   // Lifecycle
   destroy(): void;
@@ -149,6 +642,7 @@ export interface PhysicsGlassAPI {
   getConfig(): PhysicsGlassConfig;
   getCanvas(): HTMLCanvasElement;
   isWebGLSupported(): boolean;
+  getCapabilities(): RendererCapabilities | null;
 }
 
 /**
@@ -159,31 +653,105 @@ export const GLASS_MATERIALS: Record<string, GlassMaterial> = {
     name: 'Water',
     refractionIndex: 1.33,
     dispersion: 0.01,
+    dispersionModel: {
+      type: 'sellmeier',
+      b: [0.5684027565, 0.1726177391, 0.02086189578],
+      c: [0.005101829712, 0.01821153936, 0.02620722293]
+    },
     description: 'Clear water with minimal dispersion'
   },
   crownGlass: {
     name: 'Crown Glass',
     refractionIndex: 1.52,
     dispersion: 0.02,
+    dispersionModel: {
+      type: 'sellmeier',
+      b: [1.03961212, 0.231792344, 1.01046945],
+      c: [0.00600069867, 0.0200179144, 103.560653]
+    },
     description: 'Standard optical glass used in windows and lenses'
   },
   flintGlass: {
     name: 'Flint Glass',
     refractionIndex: 1.65,
     dispersion: 0.05,
+    dispersionModel: { type: 'abbe', nD: 1.65, abbeNumber: 33.8 },
     description: 'Dense glass with high dispersion for prisms'
   },
   diamond: {
     name: 'Diamond',
     refractionIndex: 2.42,
     dispersion: 0.08,
+    dispersionModel: {
+      type: 'sellmeier',
+      b: [4.3356, 0.3306, 0],
+      c: [0.011236, 0.030625, 0]
+    },
     description: 'Extremely high refraction creating brilliant effects'
   },
   acrylic: {
     name: 'Acrylic',
     refractionIndex: 1.49,
     dispersion: 0.015,
+    dispersionModel: {
+      type: 'sellmeier',
+      b: [0.99654, 0.18964, 0.00411],
+      c: [0.00787, 0.02191, 3.85727]
+    },
     description: 'Lightweight plastic with glass-like properties'
+  },
+  bottleGlass: {
+    name: 'Bottle Glass',
+    refractionIndex: 1.52,
+    dispersion: 0.02,
+    dispersionModel: { type: 'abbe', nD: 1.52, abbeNumber: 58 },
+    absorptionColor: [0.35, 0.7, 0.4],
+    absorptionDensity: 6,
+    description: 'Iron-tinted soda-lime glass with a deep green body color'
+  },
+  soapBubble: {
+    name: 'Soap Bubble',
+    refractionIndex: 1.0,
+    dispersion: 0,
+    thinFilm: { thickness: 380, refractionIndex: 1.33, variation: 220, flowSpeed: 0.5 },
+    description: 'Air wrapped in a draining water film with swirling interference colors'
+  },
+  oilSlick: {
+    name: 'Oil Slick',
+    refractionIndex: 1.33,
+    dispersion: 0.01,
+    thinFilm: { thickness: 450, refractionIndex: 1.47, variation: 300, flowSpeed: 0.15 },
+    description: 'Water under a thin layer of oil with rainbow bands'
+  },
+  coatedLens: {
+    name: 'Coated Lens',
+    refractionIndex: 1.52,
+    dispersion: 0.02,
+    dispersionModel: {
+      type: 'sellmeier',
+      b: [1.03961212, 0.231792344, 1.01046945],
+      c: [0.00600069867, 0.0200179144, 103.560653]
+    },
+    thinFilm: { thickness: 100, refractionIndex: 1.38 },
+    description: 'Crown glass with a quarter-wave magnesium fluoride anti-reflective coating'
+  },
+  amber: {
+    name: 'Amber Glass',
+    refractionIndex: 1.52,
+    dispersion: 0.02,
+    dispersionModel: { type: 'abbe', nD: 1.52, abbeNumber: 58 },
+    absorptionColor: [0.85, 0.5, 0.15],
+    absorptionDensity: 6,
+    description: 'Brown pharmaceutical glass that absorbs blue light'
+  },
+  blueAcrylic: {
+    name: 'Blue Acrylic',
+    refractionIndex: 1.49,
+    dispersion: 0.015,
+    dispersionModel: { type: 'abbe', nD: 1.49, abbeNumber: 57 },
+    absorptionColor: [0.2, 0.45, 0.9],
+    absorptionDensity: 4,
+    description: 'Cast acrylic sheet dyed transparent blue'
   }
 };
 
@@ -202,5 +770,7 @@ export const ERROR_CODES = {
   CANVAS_NOT_FOUND: 'CANVAS_NOT_FOUND',
   SHADER_COMPILATION_FAILED: 'SHADER_COMPILATION_FAILED',
   TEXTURE_LOAD_FAILED: 'TEXTURE_LOAD_FAILED',
-  INVALID_CONFIGURATION: 'INVALID_CONFIGURATION'
+  TEXTURE_UPLOAD_FAILED: 'TEXTURE_UPLOAD_FAILED',
+  INVALID_CONFIGURATION: 'INVALID_CONFIGURATION',
+  OBJECT_NOT_FOUND: 'OBJECT_NOT_FOUND'
 } as const; 
\ No newline at end of file
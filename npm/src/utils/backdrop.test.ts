@@ -0,0 +1,101 @@
+import { observeBackdrop } from './backdrop';
+
+type Listener = () => void;
+
+let listeners: Record<string, Listener[]>;
+let frames: (Listener | null)[];
+let mutationCallbacks: ((records: { target: unknown }[]) => void)[];
+
+beforeEach(() => {
+  listeners = {};
+  frames = [];
+  mutationCallbacks = [];
+
+  Object.assign(global, {
+    window: {
+      addEventListener: (type: string, listener: Listener) => {
+        (listeners[type] = listeners[type] || []).push(listener);
+      },
+      removeEventListener: (type: string, listener: Listener) => {
+        listeners[type] = listeners[type].filter((other) => other !== listener);
+      }
+    },
+    requestAnimationFrame: (callback: Listener) => frames.push(callback),
+    cancelAnimationFrame: (id: number) => { frames[id - 1] = null; },
+    MutationObserver: class {
+      constructor(callback: (records: { target: unknown }[]) => void) {
+        mutationCallbacks.push(callback);
+      }
+      observe() {}
+      disconnect() {}
+    }
+  });
+});
+
+function emit(type: string): void {
+  (listeners[type] || []).forEach((listener) => listener());
+}
+
+function runFrames(): void {
+  const pending = frames;
+  frames = [];
+  pending.forEach((callback) => callback && callback());
+}
+
+function observe() {
+  const element = {} as Element;
+  const canvas = {} as HTMLCanvasElement;
+  const callbacks = { capture: jest.fn(), realign: jest.fn() };
+  const cleanup = observeBackdrop(element, canvas, { element: 'main' }, callbacks);
+  return { element, canvas, callbacks, cleanup };
+}
+
+describe('observeBackdrop', () => {
+  it('realigns once per frame however often the page scrolls', () => {
+    const { callbacks } = observe();
+
+    emit('scroll');
+    emit('scroll');
+    emit('scroll');
+    runFrames();
+
+    expect(callbacks.realign).toHaveBeenCalledTimes(1);
+    expect(callbacks.capture).not.toHaveBeenCalled();
+  });
+
+  it('captures instead of realigning when the frame also saw a resize', () => {
+    const { callbacks } = observe();
+
+    emit('scroll');
+    emit('resize');
+    emit('scroll');
+    runFrames();
+
+    expect(callbacks.capture).toHaveBeenCalledTimes(1);
+    expect(callbacks.realign).not.toHaveBeenCalled();
+  });
+
+  it('ignores mutations of the glass canvas itself', () => {
+    const { element, canvas, callbacks } = observe();
+
+    mutationCallbacks[0]([{ target: canvas }]);
+    runFrames();
+    expect(callbacks.capture).not.toHaveBeenCalled();
+
+    mutationCallbacks[0]([{ target: canvas }, { target: element }]);
+    runFrames();
+    expect(callbacks.capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening and drops the pending frame on cleanup', () => {
+    const { callbacks, cleanup } = observe();
+
+    emit('scroll');
+    cleanup();
+    emit('resize');
+    runFrames();
+
+    expect(callbacks.capture).not.toHaveBeenCalled();
+    expect(callbacks.realign).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { BackdropConfig } from '../types';
+import { loadImage } from './webgl';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+/**
+ * Copy an element's computed style onto its clone, so the snapshot renders
+ * without the page's style sheets
+ */
+function inlineStyles(source: Element, clone: Element): void {
+  if (!(clone instanceof HTMLElement || clone instanceof SVGElement)) return;
+
+  const style = window.getComputedStyle(source);
+  for (let i = 0; i < style.length; i++) {
+    const name = style[i];
+    clone.style.setProperty(name, style.getPropertyValue(name), style.getPropertyPriority(name));
+  }
+}
+
+/**
+ * Pixels of an image or canvas as a data URL, since an SVG image can't load
+ * external resources. Cross-origin content without CORS stays blank.
+ */
+function toDataURL(source: HTMLImageElement | HTMLCanvasElement): string | null {
+  try {
+    if (source instanceof HTMLCanvasElement) return source.toDataURL();
+    if (!source.complete || !source.naturalWidth) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+    return canvas.toDataURL();
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Prepare a deep clone for serialization: inline styles, embed images and
+ * canvases, carry over form state and hide the excluded element
+ */
+function prepareClone(source: Element, clone: Element, exclude: Element): Element {
+  inlineStyles(source, clone);
+
+  if (source === exclude) {
+    (clone as HTMLElement).style.visibility = 'hidden';
+    return clone;
+  }
+
+  if (source instanceof HTMLCanvasElement) {
+    const image = document.createElement('img');
+    inlineStyles(source, image);
+    image.src = toDataURL(source) || '';
+    return image;
+  }
+
+  if (source instanceof HTMLImageElement) {
+    const url = toDataURL(source);
+    if (url) {
+      clone.removeAttribute('srcset');
+      clone.setAttribute('src', url);
+    }
+  } else if (source instanceof HTMLInputElement) {
+    clone.setAttribute('value', source.value);
+  } else if (source instanceof HTMLTextAreaElement) {
+    clone.textContent = source.value;
+  }
+
+  const sourceChildren = Array.from(source.children);
+  const cloneChildren = Array.from(clone.children);
+  sourceChildren.forEach((child, index) => {
+    const prepared = prepareClone(child, cloneChildren[index], exclude);
+    if (prepared !== cloneChildren[index]) {
+      clone.replaceChild(prepared, cloneChildren[index]);
+    }
+  });
+
+  return clone;
+}
+
+/**
+ * Render an element and its subtree to an image through an SVG
+ * foreignObject, at `scale` image pixels per CSS pixel. The excluded
+ * element, usually the glass canvas itself, is left out of the snapshot.
+ */
+export async function captureElement(
+  element: Element,
+  exclude: Element,
+  scale: number
+): Promise<HTMLImageElement> {
+  const rect = element.getBoundingClientRect();
+  const width = Math.max(1, Math.ceil(rect.width));
+  const height = Math.max(1, Math.ceil(rect.height));
+
+  const clone = prepareClone(element, element.cloneNode(true) as Element, exclude) as HTMLElement;
+  clone.setAttribute('xmlns', XHTML_NAMESPACE);
+  clone.style.margin = '0';
+  clone.style.transform = 'none';
+  clone.style.width = `${rect.width}px`;
+  clone.style.height = `${rect.height}px`;
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" ` +
+    `viewBox="0 0 ${width} ${height}"><foreignObject x="0" y="0" width="${width}" height="${height}">` +
+    `${markup}</foreignObject></svg>`;
+
+  return loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+}
+
+/**
+ * Draw a snapshot of an element into a target the size of the glass
+ * canvas, positioned where the element appears behind the canvas
+ */
+export function composeBackdrop(
+  target: HTMLCanvasElement,
+  snapshot: HTMLImageElement,
+  element: Element,
+  canvas: HTMLCanvasElement
+): void {
+  const canvasRect = canvas.getBoundingClientRect();
+  const elementRect = element.getBoundingClientRect();
+  const scaleX = canvas.width / Math.max(canvasRect.width, 1);
+  const scaleY = canvas.height / Math.max(canvasRect.height, 1);
+
+  target.width = canvas.width;
+  target.height = canvas.height;
+
+  // Areas the element doesn't paint show the page background
+  const context = target.getContext('2d')!;
+  const pageBackground = window.getComputedStyle(document.body).backgroundColor;
+  context.fillStyle = pageBackground && pageBackground !== 'rgba(0, 0, 0, 0)' ? pageBackground : '#ffffff';
+  context.fillRect(0, 0, target.width, target.height);
+  context.drawImage(
+    snapshot,
+    (elementRect.left - canvasRect.left) * scaleX,
+    (elementRect.top - canvasRect.top) * scaleY,
+    elementRect.width * scaleX,
+    elementRect.height * scaleY
+  );
+}
+
+/**
+ * Watch an element for changes that invalidate its backdrop. Content and
+ * size changes ask for a new capture; scrolling only moves the existing
+ * snapshot. Both are coalesced to once per animation frame. Returns a
+ * cleanup function.
+ */
+export function observeBackdrop(
+  element: Element,
+  canvas: HTMLCanvasElement,
+  options: BackdropConfig,
+  callbacks: { capture: () => void; realign: () => void }
+): () => void {
+  let frame: number | null = null;
+  let needsCapture = false;
+
+  const schedule = (capture: boolean) => {
+    needsCapture = needsCapture || capture;
+    if (frame !== null) return;
+
+    frame = requestAnimationFrame(() => {
+      frame = null;
+      const capture = needsCapture;
+      needsCapture = false;
+
+      if (capture) {
+        callbacks.capture();
+      } else {
+        callbacks.realign();
+      }
+    });
+  };
+
+  const cleanups: (() => void)[] = [];
+
+  if (options.observeMutations ?? true) {
+    // Resizing the glass canvas itself is not a content change
+    const observer = new MutationObserver((records) => {
+      if (records.some((record) => record.target !== canvas)) schedule(true);
+    });
+    observer.observe(element, { subtree: true, childList: true, attributes: true, characterData: true });
+    cleanups.push(() => observer.disconnect());
+  }
+
+  if (options.observeScroll ?? true) {
+    const handleScroll = () => schedule(false);
+    window.addEventListener('scroll', handleScroll, { capture: true, passive: true });
+    cleanups.push(() => window.removeEventListener('scroll', handleScroll, { capture: true }));
+  }
+
+  if (options.observeResize ?? true) {
+    const handleResize = () => schedule(true);
+    window.addEventListener('resize', handleResize);
+    cleanups.push(() => window.removeEventListener('resize', handleResize));
+
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(handleResize);
+      observer.observe(element);
+      observer.observe(canvas);
+      cleanups.push(() => observer.disconnect());
+    }
+  }
+
+  return () => {
+    cleanups.forEach((cleanup) => cleanup());
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { getBackgroundFitUniforms, normalizeBackgroundFit, validateBackgroundFit } from './backgroundFit';
+import { BackgroundFit, BackgroundFitConfig, ERROR_CODES } from '../types';
+
+const CANVAS: [number, number] = [200, 100];
+const SQUARE_IMAGE: [number, number] = [100, 100];
+
+/** Image UV shown at a canvas UV */
+function getImageUV(
+  fit: BackgroundFit | BackgroundFitConfig,
+  uv: [number, number],
+  imageSize = SQUARE_IMAGE
+): number[] {
+  const { backgroundTransform: [scaleX, scaleY, offsetX, offsetY] } =
+    getBackgroundFitUniforms(fit, CANVAS, imageSize, false);
+  return [uv[0] * scaleX + offsetX, uv[1] * scaleY + offsetY];
+}
+
+function expectUV(actual: number[], expected: number[]): void {
+  actual.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 10));
+}
+
+describe('getBackgroundFitUniforms', () => {
+  it('centers the image in every fitted mode', () => {
+    (['cover', 'contain', 'fill'] as const).forEach((mode) => {
+      expectUV(getImageUV(mode, [0.5, 0.5]), [0.5, 0.5]);
+    });
+  });
+
+  it('crops the image to cover the canvas', () => {
+    expectUV(getImageUV('cover', [0, 0]), [0, 0.25]);
+    expectUV(getImageUV('cover', [1, 1]), [1, 0.75]);
+  });
+
+  it('letterboxes the image to fit inside the canvas', () => {
+    expectUV(getImageUV('contain', [0, 0]), [-0.5, 0]);
+    expectUV(getImageUV('contain', [1, 1]), [1.5, 1]);
+    expect(getBackgroundFitUniforms('contain', CANVAS, SQUARE_IMAGE, true).backgroundWrap).toBe(0);
+  });
+
+  it('stretches the image to fill the canvas', () => {
+    expect(getBackgroundFitUniforms('fill', CANVAS, SQUARE_IMAGE, false).backgroundTransform)
+      .toEqual([1, 1, 0, 0]);
+  });
+
+  it('scales about the center and offsets by a fraction of the canvas', () => {
+    expectUV(getImageUV({ mode: 'fill', scale: 2 }, [0.25, 0.25]), [0.375, 0.375]);
+    expectUV(getImageUV({ mode: 'fill', offset: [0.1, -0.2] }, [0.6, 0.3]), [0.5, 0.5]);
+  });
+
+  it('repeats tiles at their pixel size', () => {
+    const uniforms = getBackgroundFitUniforms({ mode: 'tile', offset: [0.25, 0] }, CANVAS, [50, 25], true);
+
+    expectUV(uniforms.backgroundTransform, [4, 4, -1, 0]);
+    expect(uniforms.backgroundWrap).toBe(1);
+  });
+
+  it('repeats tiles in the shader when the texture cannot wrap', () => {
+    expect(getBackgroundFitUniforms('tile', CANVAS, [30, 30], false).backgroundWrap).toBe(2);
+  });
+
+  it('treats an empty image or canvas as one pixel', () => {
+    const { backgroundTransform } = getBackgroundFitUniforms('cover', [0, 0], [0, 0], false);
+    expect(backgroundTransform.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe('validateBackgroundFit', () => {
+  it('accepts modes and configs', () => {
+    expect(normalizeBackgroundFit('tile')).toEqual({ mode: 'tile' });
+    expect(() => validateBackgroundFit({ mode: 'cover', scale: 0.5 })).not.toThrow();
+  });
+
+  it('rejects unknown modes and non-positive scales', () => {
+    const invalid = expect.objectContaining({ code: ERROR_CODES.INVALID_CONFIGURATION });
+
+    expect(() => validateBackgroundFit('stretch' as BackgroundFit)).toThrow(invalid);
+    expect(() => validateBackgroundFit({ mode: 'fill', scale: 0 })).toThrow(invalid);
+  });
+});
\ No newline at end of file
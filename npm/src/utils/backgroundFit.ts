@@ -0,0 +1,86 @@
+import {
+  BackgroundFit,
+  BackgroundFitConfig,
+  ShaderUniforms,
+  PhysicsGlassError,
+  ERROR_CODES
+} from '../types';
+
+/**
+ * Placement uniforms. The transform maps canvas UV, with y down, to image
+ * UV as `uv * xy + zw`. Wrap is 0 to show black outside the image, 1 to
+ * repeat through the sampler and 2 to repeat in the shader.
+ */
+export type BackgroundFitUniforms = Pick<ShaderUniforms, 'backgroundTransform' | 'backgroundWrap'>;
+
+const FIT_MODES: BackgroundFit[] = ['cover', 'contain', 'fill', 'tile'];
+
+export function normalizeBackgroundFit(fit: BackgroundFit | BackgroundFitConfig): BackgroundFitConfig {
+  return typeof fit === 'string' ? { mode: fit } : fit;
+}
+
+export function validateBackgroundFit(fit: BackgroundFit | BackgroundFitConfig): void {
+  const { mode, scale } = normalizeBackgroundFit(fit);
+
+  if (FIT_MODES.indexOf(mode) < 0) {
+    throw new PhysicsGlassError(
+      `Unknown background fit: ${mode}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if (scale !== undefined && scale <= 0) {
+    throw new PhysicsGlassError(
+      'Background scale must be positive',
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+}
+
+/**
+ * Placement of an image of `imageSize` pixels on a canvas of `canvasSize`
+ * CSS pixels. `wraps` says whether the texture repeats in hardware.
+ */
+export function getBackgroundFitUniforms(
+  fit: BackgroundFit | BackgroundFitConfig,
+  canvasSize: [number, number],
+  imageSize: [number, number],
+  wraps: boolean
+): BackgroundFitUniforms {
+  const { mode, offset = [0, 0], scale = 1 } = normalizeBackgroundFit(fit);
+  const [canvasWidth, canvasHeight] = canvasSize.map((size) => Math.max(size, 1));
+  const [imageWidth, imageHeight] = imageSize.map((size) => Math.max(size, 1));
+
+  if (mode === 'tile') {
+    const repeatX = canvasWidth / (imageWidth * scale);
+    const repeatY = canvasHeight / (imageHeight * scale);
+    return {
+      backgroundTransform: [repeatX, repeatY, -offset[0] * repeatX, -offset[1] * repeatY],
+      backgroundWrap: wraps ? 1 : 2
+    };
+  }
+
+  // Fraction of the image visible across the canvas on each axis
+  const aspectRatio = (canvasWidth / canvasHeight) / (imageWidth / imageHeight);
+  let spanX = 1;
+  let spanY = 1;
+  if (mode === 'cover') {
+    spanX = Math.min(aspectRatio, 1);
+    spanY = Math.min(1 / aspectRatio, 1);
+  } else if (mode === 'contain') {
+    spanX = Math.max(aspectRatio, 1);
+    spanY = Math.max(1 / aspectRatio, 1);
+  }
+
+  const scaleX = spanX / scale;
+  const scaleY = spanY / scale;
+  return {
+    backgroundTransform: [
+      scaleX,
+      scaleY,
+      0.5 - (0.5 + offset[0]) * scaleX,
+      0.5 - (0.5 + offset[1]) * scaleY
+    ],
+    backgroundWrap: 0
+  };
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+import {
+  FRAUNHOFER_LINES,
+  abbeToCauchy,
+  createLinearDispersionModel,
+  getDispersionSpread,
+  getDispersionUniforms,
+  getRefractiveIndex
+} from './dispersion';
+import { DispersionModel } from '../types';
+
+const BK7: DispersionModel = {
+  type: 'sellmeier',
+  b: [1.03961212, 0.231792344, 1.01046945],
+  c: [0.00600069867, 0.0200179144, 103.560653]
+};
+
+function getAbbeNumber(model: DispersionModel): number {
+  const nD = getRefractiveIndex(model, FRAUNHOFER_LINES.D);
+  const nF = getRefractiveIndex(model, FRAUNHOFER_LINES.F);
+  const nC = getRefractiveIndex(model, FRAUNHOFER_LINES.C);
+  return (nD - 1) / (nF - nC);
+}
+
+describe('getRefractiveIndex', () => {
+  it('evaluates the Sellmeier equation for BK7', () => {
+    expect(getRefractiveIndex(BK7, FRAUNHOFER_LINES.D)).toBeCloseTo(1.5168, 4);
+    expect(getAbbeNumber(BK7)).toBeCloseTo(64.17, 1);
+  });
+
+  it('evaluates the Cauchy equation with micrometre wavelengths', () => {
+    const model: DispersionModel = { type: 'cauchy', a: 1.5, b: 0.004, c: 0.0001 };
+    // λ = 0.5 µm: 1.5 + 0.004 / 0.25 + 0.0001 / 0.0625
+    expect(getRefractiveIndex(model, 500)).toBeCloseTo(1.5176, 10);
+  });
+
+  it('falls with wavelength', () => {
+    expect(getRefractiveIndex(BK7, 450)).toBeGreaterThan(getRefractiveIndex(BK7, 650));
+  });
+});
+
+describe('abbeToCauchy', () => {
+  it('reproduces nD and the Abbe number', () => {
+    const model = abbeToCauchy(1.62, 36.4);
+
+    expect(getRefractiveIndex(model, FRAUNHOFER_LINES.D)).toBeCloseTo(1.62, 10);
+    expect(getAbbeNumber(model)).toBeCloseTo(36.4, 8);
+  });
+
+  it('matches an abbe model evaluated directly', () => {
+    const abbe: DispersionModel = { type: 'abbe', nD: 1.5168, abbeNumber: 64.17 };
+    expect(getRefractiveIndex(abbe, 480)).toBe(getRefractiveIndex(abbeToCauchy(1.5168, 64.17), 480));
+  });
+});
+
+describe('createLinearDispersionModel', () => {
+  it('keeps the base index at 550nm and spreads twice the dispersion', () => {
+    const model = createLinearDispersionModel(1.5, 0.02);
+
+    expect(getRefractiveIndex(model, 550)).toBeCloseTo(1.5, 10);
+    expect(getRefractiveIndex(model, 450) - getRefractiveIndex(model, 650)).toBeCloseTo(0.04, 10);
+    expect(getDispersionSpread(model)).toBeCloseTo(0.02, 10);
+  });
+
+  it('has no spread without dispersion', () => {
+    expect(getDispersionSpread(createLinearDispersionModel(1.33, 0))).toBe(0);
+  });
+});
+
+describe('getDispersionUniforms', () => {
+  it('packs Cauchy coefficients with a zero third term by default', () => {
+    expect(getDispersionUniforms({ type: 'cauchy', a: 1.5, b: 0.004 })).toEqual({
+      model: 0,
+      b: [1.5, 0.004, 0],
+      c: [0, 0, 0]
+    });
+  });
+
+  it('packs Sellmeier coefficients', () => {
+    expect(getDispersionUniforms(BK7)).toEqual({ model: 1, b: BK7.b, c: BK7.c });
+  });
+
+  it('converts abbe models to Cauchy', () => {
+    const { model, b } = getDispersionUniforms({ type: 'abbe', nD: 1.5168, abbeNumber: 64.17 });
+    const cauchy = abbeToCauchy(1.5168, 64.17);
+
+    expect(model).toBe(0);
+    expect(b).toEqual([cauchy.a, cauchy.b, 0]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { DispersionModel } from '../types';
+
+/**
+ * Fraunhofer lines used to define nD and the Abbe number (nanometres)
+ */
+export const FRAUNHOFER_LINES = {
+  F: 486.13,
+  D: 587.56,
+  C: 656.27
+} as const;
+
+/**
+ * Wavelengths used to derive the artistic dispersion value (nanometres)
+ */
+const BLUE_WAVELENGTH = 450;
+const GREEN_WAVELENGTH = 550;
+const RED_WAVELENGTH = 650;
+
+/**
+ * 1 / λ² with λ converted from nanometres to micrometres
+ */
+function inverseSquare(wavelength: number): number {
+  return 1 / Math.pow(wavelength / 1000, 2);
+}
+
+/**
+ * Shader representation of a dispersion model
+ */
+export interface DispersionUniforms {
+  model: number;
+  b: [number, number, number];
+  c: [number, number, number];
+}
+
+/**
+ * Convert nD and an Abbe number into two-term Cauchy coefficients
+ */
+export function abbeToCauchy(
+  nD: number,
+  abbeNumber: number
+): { type: 'cauchy'; a: number; b: number } {
+  const b = (nD - 1) / abbeNumber /
+    (inverseSquare(FRAUNHOFER_LINES.F) - inverseSquare(FRAUNHOFER_LINES.C));
+  const a = nD - b * inverseSquare(FRAUNHOFER_LINES.D);
+
+  return { type: 'cauchy', a, b };
+}
+
+/**
+ * Build a Cauchy model from a base index and the artistic dispersion value,
+ * so that n(450nm) - n(650nm) equals twice the dispersion.
+ */
+export function createLinearDispersionModel(
+  refractionIndex: number,
+  dispersion: number
+): DispersionModel {
+  const b = (2 * dispersion) /
+    (inverseSquare(BLUE_WAVELENGTH) - inverseSquare(RED_WAVELENGTH));
+  const a = refractionIndex - b * inverseSquare(GREEN_WAVELENGTH);
+
+  return { type: 'cauchy', a, b };
+}
+
+/**
+ * Evaluate the refractive index of a model at a wavelength in nanometres
+ */
+export function getRefractiveIndex(model: DispersionModel, wavelength: number): number {
+  const lambda2 = 1 / inverseSquare(wavelength);
+
+  switch (model.type) {
+    case 'cauchy':
+      return model.a + model.b / lambda2 + (model.c || 0) / (lambda2 * lambda2);
+    case 'sellmeier': {
+      let n2 = 1;
+      for (let i = 0; i < 3; i++) {
+        n2 += (model.b[i] * lambda2) / (lambda2 - model.c[i]);
+      }
+      return Math.sqrt(n2);
+    }
+    case 'abbe':
+      return getRefractiveIndex(abbeToCauchy(model.nD, model.abbeNumber), wavelength);
+  }
+}
+
+/**
+ * Artistic dispersion value equivalent to a model's spread across the spectrum
+ */
+export function getDispersionSpread(model: DispersionModel): number {
+  return (getRefractiveIndex(model, BLUE_WAVELENGTH) - getRefractiveIndex(model, RED_WAVELENGTH)) / 2;
+}
+
+/**
+ * Pack a dispersion model into the uniforms read by the fragment shader
+ */
+export function getDispersionUniforms(model: DispersionModel): DispersionUniforms {
+  switch (model.type) {
+    case 'cauchy':
+      return { model: 0, b: [model.a, model.b, model.c || 0], c: [0, 0, 0] };
+    case 'sellmeier':
+      return {
+        model: 1,
+        b: [model.b[0], model.b[1], model.b[2]],
+        c: [model.c[0], model.c[1], model.c[2]]
+      };
+    case 'abbe':
+      return getDispersionUniforms(abbeToCauchy(model.nD, model.abbeNumber));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { createDynamicTexture, isElementReady } from './dynamicTexture';
+import { BackgroundElement } from '../types';
+
+/** A context that records texture uploads and ignores everything else */
+function createContext() {
+  const uploads: unknown[] = [];
+  const gl = {
+    createTexture: () => ({}),
+    bindTexture: () => undefined,
+    texParameteri: () => undefined,
+    texImage2D: (...args: unknown[]) => uploads.push(args[args.length - 1])
+  };
+  return { gl: gl as unknown as WebGLRenderingContext, uploads };
+}
+
+function element(properties: object): BackgroundElement {
+  return properties as BackgroundElement;
+}
+
+describe('isElementReady', () => {
+  it('needs a nonzero size', () => {
+    expect(isElementReady(element({ width: 300, height: 150 }))).toBe(true);
+    expect(isElementReady(element({ width: 0, height: 150 }))).toBe(false);
+  });
+
+  it('reads the display size of video frames', () => {
+    expect(isElementReady(element({ displayWidth: 640, width: 0 }))).toBe(true);
+    expect(isElementReady(element({ displayWidth: 0, width: 0 }))).toBe(false);
+  });
+});
+
+describe('createDynamicTexture', () => {
+  it('uploads an element on every update while it is ready', () => {
+    const { gl, uploads } = createContext();
+    const canvas = element({ width: 0, height: 0 });
+    const texture = createDynamicTexture(gl, canvas);
+    uploads.length = 0;
+
+    expect(texture.update()).toBe(false);
+    Object.assign(canvas, { width: 2, height: 2 });
+    expect(texture.update()).toBe(true);
+    expect(texture.update()).toBe(true);
+    expect(uploads).toEqual([canvas, canvas]);
+  });
+});
\ No newline at end of file
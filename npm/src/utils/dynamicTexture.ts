@@ -0,0 +1,97 @@
+import { BackgroundElement } from '../types';
+import { createDataTexture } from './webgl';
+
+/**
+ * A texture that follows an element whose content changes, such as a
+ * playing video or an animated canvas
+ */
+export interface DynamicTexture {
+  texture: WebGLTexture;
+  /** Upload the element if it may have changed since the last upload. Returns whether it did. */
+  update(): boolean;
+  /** Stop watching the element. The owner deletes the texture. */
+  release(): void;
+}
+
+export function isVideoElement(element: BackgroundElement): element is HTMLVideoElement {
+  return typeof HTMLVideoElement !== 'undefined' && element instanceof HTMLVideoElement;
+}
+
+/**
+ * Size of the element's pixel content, which is zero until it has loaded
+ */
+export function getElementSize(element: BackgroundElement): [number, number] {
+  if (isVideoElement(element)) {
+    return [element.videoWidth, element.videoHeight];
+  }
+
+  if ('displayWidth' in element) {
+    return [element.displayWidth, element.displayHeight];
+  }
+
+  if (typeof HTMLImageElement !== 'undefined' && element instanceof HTMLImageElement) {
+    return [element.naturalWidth, element.naturalHeight];
+  }
+
+  return [element.width, element.height];
+}
+
+/**
+ * Whether the element has pixels to upload: videos need a decoded frame,
+ * and closed bitmaps and video frames report a zero size
+ */
+export function isElementReady(element: BackgroundElement): boolean {
+  if (isVideoElement(element)) {
+    return element.readyState >= element.HAVE_CURRENT_DATA;
+  }
+
+  if ('displayWidth' in element) {
+    return element.displayWidth > 0;
+  }
+
+  return element.width > 0 && element.height > 0;
+}
+
+/**
+ * Keep a texture in sync with an element. Videos that support
+ * requestVideoFrameCallback upload once per presented frame; everything
+ * else uploads whenever update is called.
+ */
+export function createDynamicTexture(
+  gl: WebGLRenderingContext,
+  element: BackgroundElement,
+  internalFormat: number = gl.RGBA
+): DynamicTexture {
+  const texture = createDataTexture(gl, 1, 1, new Uint8Array(4));
+  const video = isVideoElement(element) ? element : null;
+  const watchesFrames = !!video && 'requestVideoFrameCallback' in video;
+
+  let hasNewFrame = true;
+  let callbackId: number | null = null;
+
+  if (video && watchesFrames) {
+    const onFrame = () => {
+      hasNewFrame = true;
+      callbackId = video.requestVideoFrameCallback(onFrame);
+    };
+    callbackId = video.requestVideoFrameCallback(onFrame);
+  }
+
+  return {
+    texture,
+    update() {
+      if (!hasNewFrame || !isElementReady(element)) return false;
+
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, gl.RGBA, gl.UNSIGNED_BYTE, element);
+      hasNewFrame = !watchesFrames;
+      return true;
+    },
+    release() {
+      if (video && callbackId !== null) {
+        video.cancelVideoFrameCallback(callbackId);
+        callbackId = null;
+      }
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { computeHeightField } from './heightField';
+
+const SIZE = 9;
+
+/** A 5×5 square in the middle of a 9×9 grid */
+function createSquareMask(): Uint8Array {
+  const mask = new Uint8Array(SIZE * SIZE);
+  for (let y = 2; y <= 6; y++) {
+    for (let x = 2; x <= 6; x++) mask[y * SIZE + x] = 1;
+  }
+  return mask;
+}
+
+function at(x: number, y: number): number {
+  return y * SIZE + x;
+}
+
+describe('computeHeightField', () => {
+  it('measures signed Euclidean distances to the silhouette', () => {
+    const { distances } = computeHeightField(createSquareMask(), SIZE, SIZE, 0);
+
+    expect(distances[at(4, 4)]).toBeCloseTo(3);
+    expect(distances[at(2, 4)]).toBeCloseTo(1);
+    expect(distances[at(1, 4)]).toBeCloseTo(-1);
+    expect(distances[at(0, 0)]).toBeCloseTo(-Math.SQRT2 * 2);
+  });
+
+  it('raises a circular bevel from the silhouette', () => {
+    // A bevel of a third of the size spans three texels
+    const { heights } = computeHeightField(createSquareMask(), SIZE, SIZE, 3 / SIZE);
+
+    expect(heights[at(4, 4)]).toBeCloseTo(1);
+    expect(heights[at(2, 4)]).toBeCloseTo(Math.sqrt(5) / 3);
+    expect(heights[at(3, 4)]).toBeCloseTo(Math.sqrt(8) / 3);
+    expect(heights[at(1, 4)]).toBe(0);
+  });
+
+  it('is flat inside the silhouette without a bevel', () => {
+    const mask = createSquareMask();
+    const { heights } = computeHeightField(mask, SIZE, SIZE, 0);
+
+    mask.forEach((inside, index) => expect(heights[index]).toBe(inside ? 1 : 0));
+  });
+
+  it('keeps explicit heights', () => {
+    const heights = new Float32Array(SIZE * SIZE).fill(0.25);
+    const field = computeHeightField(createSquareMask(), SIZE, SIZE, 0.5, heights);
+
+    expect(field.heights).toBe(heights);
+    expect(Array.from(field.heights).every((value) => value === 0.25)).toBe(true);
+  });
+});
\ No newline at end of file
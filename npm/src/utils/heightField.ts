@@ -0,0 +1,207 @@
+import { CustomShapeConfig, PhysicsGlassError, ERROR_CODES } from '../types';
+import { createDataTexture, loadImage } from './webgl';
+
+/**
+ * Resolution of the rasterized custom shape
+ */
+export const HEIGHT_FIELD_SIZE = 256;
+
+/**
+ * Heights below this are treated as outside a height map's silhouette
+ */
+const HEIGHT_MAP_THRESHOLD = 0.02;
+
+/**
+ * Height field derived from a custom shape, stored row by row from the top
+ */
+export interface HeightField {
+  width: number;
+  height: number;
+  /** Surface height from 0 (silhouette edge) to 1 */
+  heights: Float32Array;
+  /** Distance to the silhouette in texels, positive inside */
+  distances: Float32Array;
+}
+
+/**
+ * One-dimensional squared Euclidean distance transform
+ * (Felzenszwalb & Huttenlocher 2012)
+ */
+function distanceTransform1D(
+  f: Float32Array,
+  n: number,
+  d: Float32Array,
+  v: Int32Array,
+  z: Float32Array
+): void {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+}
+
+/**
+ * Distance in texels from every pixel to the nearest pixel where seed is true
+ */
+function distanceToSeeds(seeds: Uint8Array, width: number, height: number): Float32Array {
+  const size = Math.max(width, height);
+  const grid = new Float32Array(width * height);
+  const f = new Float32Array(size);
+  const d = new Float32Array(size);
+  const v = new Int32Array(size);
+  const z = new Float32Array(size + 1);
+  const far = 1e20;
+
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = seeds[i] ? 0 : far;
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1D(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1D(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(d[x]);
+  }
+
+  return grid;
+}
+
+/**
+ * Build a height field from a silhouette mask. Without explicit heights the
+ * surface rises from the silhouette along a circular bevel profile.
+ */
+export function computeHeightField(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  bevel: number,
+  heights?: Float32Array
+): HeightField {
+  const outside = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) outside[i] = mask[i] ? 0 : 1;
+
+  const toOutside = distanceToSeeds(outside, width, height);
+  const toInside = distanceToSeeds(mask, width, height);
+  const distances = new Float32Array(mask.length);
+  const bevelTexels = bevel * Math.min(width, height);
+  const result = heights || new Float32Array(mask.length);
+
+  for (let i = 0; i < mask.length; i++) {
+    distances[i] = mask[i] ? toOutside[i] : -toInside[i];
+
+    if (!heights) {
+      const inset = bevelTexels > 0 ? Math.min(Math.max(distances[i], 0) / bevelTexels, 1) : 1;
+      result[i] = mask[i] ? Math.sqrt(1 - (1 - inset) * (1 - inset)) : 0;
+    }
+  }
+
+  return { width, height, heights: result, distances };
+}
+
+/**
+ * Rasterize a custom shape source into a canvas
+ */
+async function rasterizeShape(config: CustomShapeConfig): Promise<CanvasRenderingContext2D> {
+  const canvas = document.createElement('canvas');
+  canvas.width = HEIGHT_FIELD_SIZE;
+  canvas.height = HEIGHT_FIELD_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new PhysicsGlassError(
+      'Failed to create a 2D context for the custom shape',
+      ERROR_CODES.TEXTURE_LOAD_FAILED
+    );
+  }
+
+  const { source } = config;
+  if (source.type === 'svgPath') {
+    const [minX, minY, viewWidth, viewHeight] = source.viewBox || [0, 0, 24, 24];
+    const padding = 2;
+    const scale = (HEIGHT_FIELD_SIZE - padding * 2) / Math.max(viewWidth, viewHeight);
+
+    ctx.translate(
+      (HEIGHT_FIELD_SIZE - viewWidth * scale) / 2 - minX * scale,
+      (HEIGHT_FIELD_SIZE - viewHeight * scale) / 2 - minY * scale
+    );
+    ctx.scale(scale, scale);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill(new Path2D(source.path));
+  } else {
+    const image = typeof source.image === 'string' ? await loadImage(source.image) : source.image;
+    ctx.drawImage(image, 0, 0, HEIGHT_FIELD_SIZE, HEIGHT_FIELD_SIZE);
+  }
+
+  return ctx;
+}
+
+/**
+ * Derive a height field from an SVG path, alpha mask or grayscale height map
+ */
+export async function createHeightField(config: CustomShapeConfig): Promise<HeightField> {
+  const ctx = await rasterizeShape(config);
+  const { data } = ctx.getImageData(0, 0, HEIGHT_FIELD_SIZE, HEIGHT_FIELD_SIZE);
+  const pixelCount = HEIGHT_FIELD_SIZE * HEIGHT_FIELD_SIZE;
+  const mask = new Uint8Array(pixelCount);
+
+  if (config.source.type === 'heightMap') {
+    const heights = new Float32Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      const luminance = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+      heights[i] = luminance * (data[i * 4 + 3] / 255);
+      mask[i] = heights[i] > HEIGHT_MAP_THRESHOLD ? 1 : 0;
+    }
+    return computeHeightField(mask, HEIGHT_FIELD_SIZE, HEIGHT_FIELD_SIZE, 0, heights);
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    mask[i] = data[i * 4 + 3] > 127 ? 1 : 0;
+  }
+  return computeHeightField(mask, HEIGHT_FIELD_SIZE, HEIGHT_FIELD_SIZE, config.bevel ?? 0.08);
+}
+
+/**
+ * Pack a height field into a texture: 16-bit height in R and G, and the
+ * signed distance to the silhouette in B as a fraction of half the size
+ */
+export function createHeightFieldTexture(
+  gl: WebGLRenderingContext,
+  field: HeightField
+): WebGLTexture {
+  const data = new Uint8Array(field.width * field.height * 4);
+  const halfSize = Math.min(field.width, field.height) / 2;
+
+  for (let i = 0; i < field.heights.length; i++) {
+    const height = Math.max(0, Math.min(1, field.heights[i])) * 255;
+    const distance = Math.max(-1, Math.min(1, field.distances[i] / halfSize));
+
+    data[i * 4] = Math.floor(height);
+    data[i * 4 + 1] = Math.round((height - Math.floor(height)) * 255);
+    data[i * 4 + 2] = Math.round((distance * 0.5 + 0.5) * 255);
+    data[i * 4 + 3] = 255;
+  }
+
+  return createDataTexture(gl, field.width, field.height, data);
+}
\ No newline at end of file
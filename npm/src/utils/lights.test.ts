@@ -0,0 +1,56 @@
+import { MAX_LIGHTS, getLightUniforms, getPrimaryLightDirection, validateLights } from './lights';
+import { ERROR_CODES, LightConfig } from '../types';
+
+describe('getLightUniforms', () => {
+  it('packs each light type with premultiplied colors', () => {
+    const uniforms = getLightUniforms([
+      { type: 'directional', direction: [0, 0, 1], color: [1, 0.5, 0.25], intensity: 2 },
+      { type: 'point', position: [0.2, 0.8, 0.5] },
+      { type: 'area', position: [0.5, 0.5, 2], radius: 0.3 }
+    ]);
+
+    expect(uniforms.count).toBe(3);
+    expect(Array.from(uniforms.types)).toEqual([0, 1, 2, 0]);
+    expect(Array.from(uniforms.vectors.slice(0, 9))).toEqual([0, 0, 1, 0.2, 0.8, 0.5, 0.5, 0.5, 2].map(Math.fround));
+    expect(Array.from(uniforms.colors.slice(0, 6))).toEqual([2, 1, 0.5, 1, 1, 1]);
+    expect(Array.from(uniforms.radii)).toEqual([0, 0, Math.fround(0.3), 0]);
+  });
+
+  it('gives area lights a default radius', () => {
+    expect(getLightUniforms([{ type: 'area' }]).radii[0]).toBeCloseTo(0.1);
+  });
+
+  it('keeps only the lights the shader evaluates', () => {
+    const lights: LightConfig[] = Array.from({ length: MAX_LIGHTS + 2 }, () => ({ type: 'point' }));
+    expect(getLightUniforms(lights).count).toBe(MAX_LIGHTS);
+  });
+});
+
+describe('getPrimaryLightDirection', () => {
+  it('uses the first directional light', () => {
+    expect(getPrimaryLightDirection([
+      { type: 'point', position: [0, 0, 1] },
+      { type: 'directional', direction: [1, 0, 0] },
+      { type: 'directional', direction: [0, 1, 0] }
+    ])).toEqual([1, 0, 0]);
+  });
+
+  it('is undefined without a directional light', () => {
+    expect(getPrimaryLightDirection([{ type: 'point' }])).toBeUndefined();
+  });
+});
+
+describe('validateLights', () => {
+  const invalid = expect.objectContaining({ code: ERROR_CODES.INVALID_CONFIGURATION });
+
+  it('rejects too many lights', () => {
+    const lights: LightConfig[] = Array.from({ length: MAX_LIGHTS + 1 }, () => ({ type: 'point' }));
+    expect(() => validateLights(lights)).toThrow(invalid);
+  });
+
+  it('rejects unknown types and negative values', () => {
+    expect(() => validateLights([{ type: 'spot' as LightConfig['type'] }])).toThrow(invalid);
+    expect(() => validateLights([{ type: 'point', intensity: -1 }])).toThrow(invalid);
+    expect(() => validateLights([{ type: 'area', radius: -0.1 }])).toThrow(invalid);
+  });
+});
\ No newline at end of file
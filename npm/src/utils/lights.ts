@@ -0,0 +1,87 @@
+import { LightConfig, PhysicsGlassError, ERROR_CODES } from '../types';
+
+/**
+ * Lights evaluated by the fragment shader, matching MAX_LIGHTS in GLSL
+ */
+export const MAX_LIGHTS = 4;
+
+/**
+ * Light types in the order of their shader index
+ */
+const LIGHT_TYPES = ['directional', 'point', 'area'];
+
+/**
+ * Shader representation of the lights. Directional lights store their
+ * direction in vectors, point and area lights their position. Colors are
+ * premultiplied by intensity.
+ */
+export interface LightUniforms {
+  count: number;
+  types: Float32Array;
+  vectors: Float32Array;
+  colors: Float32Array;
+  radii: Float32Array;
+}
+
+export function validateLights(lights: LightConfig[]): void {
+  if (lights.length > MAX_LIGHTS) {
+    throw new PhysicsGlassError(
+      `At most ${MAX_LIGHTS} lights are supported`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  lights.forEach(validateLight);
+}
+
+export function validateLight(light: LightConfig): void {
+  if (LIGHT_TYPES.indexOf(light.type) < 0) {
+    throw new PhysicsGlassError(
+      `Unknown light type: ${light.type}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if ((light.intensity ?? 1) < 0 || (light.radius ?? 0) < 0) {
+    throw new PhysicsGlassError(
+      'Light intensity and radius must not be negative',
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+}
+
+/**
+ * Direction toward the first directional light, if there is one
+ */
+export function getPrimaryLightDirection(lights: LightConfig[]): [number, number, number] | undefined {
+  const light = lights.find((candidate) => candidate.type === 'directional');
+  return light ? light.direction ?? [0.5, 0.5, 1.0] : undefined;
+}
+
+/**
+ * Pack lights into the uniform arrays read by the fragment shader
+ */
+export function getLightUniforms(lights: LightConfig[]): LightUniforms {
+  const uniforms: LightUniforms = {
+    count: Math.min(lights.length, MAX_LIGHTS),
+    types: new Float32Array(MAX_LIGHTS),
+    vectors: new Float32Array(MAX_LIGHTS * 3),
+    colors: new Float32Array(MAX_LIGHTS * 3),
+    radii: new Float32Array(MAX_LIGHTS)
+  };
+
+  lights.slice(0, MAX_LIGHTS).forEach((light, index) => {
+    const vector = light.type === 'directional'
+      ? light.direction ?? [0.5, 0.5, 1.0]
+      : light.position ?? [0.5, 0.5, 1.0];
+    const color = light.color ?? [1, 1, 1];
+    const intensity = light.intensity ?? 1;
+
+    uniforms.types[index] = LIGHT_TYPES.indexOf(light.type);
+    uniforms.vectors.set(vector, index * 3);
+    uniforms.colors.set(color.map((channel) => channel * intensity), index * 3);
+    uniforms.radii[index] = light.type === 'area' ? light.radius ?? 0.1 : 0;
+  });
+
+  return uniforms;
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+import {
+  OBJECT_BLOCK_NAME,
+  OBJECT_BLOCK_SIZE,
+  getObjectBlockStride,
+  objectUniformSource,
+  packObjectUniforms
+} from './objectUniforms';
+import { ShaderUniforms } from '../types';
+
+function createUniforms(seed: number): ShaderUniforms {
+  return {
+    objectRotation: new Float32Array([1, 2, 3, 4, 5, 6, 7, 8, 9].map((value) => value + seed)),
+    dispersionB: [seed + 10, seed + 11, seed + 12],
+    dispersionModel: seed + 13,
+    dispersionC: [seed + 14, seed + 15, seed + 16],
+    refractionIndex: seed + 17,
+    absorptionColor: [seed + 18, seed + 19, seed + 20],
+    absorptionDensity: seed + 21,
+    mousePos: [seed + 22, seed + 23],
+    shapeSize: [seed + 24, seed + 25],
+    glassSize: seed + 26,
+    thickness: seed + 27,
+    cornerRadius: seed + 28,
+    superellipseExponent: seed + 29,
+    tubeRadius: seed + 30,
+    filmThickness: seed + 31,
+    filmIndex: seed + 32,
+    filmVariation: seed + 33,
+    filmFlowSpeed: seed + 34
+  } as unknown as ShaderUniforms;
+}
+
+/** Expected std140 block in floats, with padding as 0 */
+function getExpectedBlock(seed: number): number[] {
+  const s = (value: number) => value + seed;
+  return [
+    s(1), s(2), s(3), 0, s(4), s(5), s(6), 0, s(7), s(8), s(9), 0,
+    s(10), s(11), s(12), s(13),
+    s(14), s(15), s(16), s(17),
+    s(18), s(19), s(20), s(21),
+    s(22), s(23), s(24), s(25),
+    s(26), s(27), s(28), s(29),
+    s(30), s(31), s(32), s(33),
+    s(34), 0, 0, 0
+  ];
+}
+
+describe('packObjectUniforms', () => {
+  it('rounds the block up to a whole vec4', () => {
+    expect(OBJECT_BLOCK_SIZE).toBe(160);
+  });
+
+  it('lays out members with std140 alignment', () => {
+    const data = packObjectUniforms([createUniforms(0)], OBJECT_BLOCK_SIZE);
+    expect(Array.from(data)).toEqual(getExpectedBlock(0));
+  });
+
+  it('places each object a stride apart', () => {
+    const data = packObjectUniforms([createUniforms(0), createUniforms(100)], 256);
+
+    expect(data.length).toBe(128);
+    expect(Array.from(data.slice(40, 64)).every((value) => value === 0)).toBe(true);
+    expect(Array.from(data.slice(64, 104))).toEqual(getExpectedBlock(100));
+  });
+});
+
+describe('getObjectBlockStride', () => {
+  it('aligns blocks to the uniform buffer offset alignment', () => {
+    const gl = {
+      UNIFORM_BUFFER_OFFSET_ALIGNMENT: 0x8a34,
+      getParameter: () => 256
+    } as unknown as WebGL2RenderingContext;
+
+    expect(getObjectBlockStride(gl)).toBe(256);
+  });
+});
+
+describe('objectUniformSource', () => {
+  it('declares each member in the block or as a plain uniform', () => {
+    expect(objectUniformSource).toContain(`layout(std140) uniform ${OBJECT_BLOCK_NAME} {`);
+    expect(objectUniformSource).toContain('OBJECT_UNIFORM mat3 u_objectRotation;');
+    expect(objectUniformSource).toContain('OBJECT_UNIFORM float u_filmFlowSpeed;');
+  });
+});
\ No newline at end of file
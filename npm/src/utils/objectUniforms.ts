@@ -0,0 +1,108 @@
+import { ShaderUniforms } from '../types';
+
+type ObjectUniformType = 'float' | 'vec2' | 'vec3' | 'mat3';
+
+/**
+ * Uniforms that differ between glass objects, in block order. Each is
+ * named after its ShaderUniforms field with a `u_` prefix.
+ */
+const OBJECT_UNIFORMS: [ObjectUniformType, keyof ShaderUniforms][] = [
+  ['mat3', 'objectRotation'],
+  ['vec3', 'dispersionB'],
+  ['float', 'dispersionModel'],
+  ['vec3', 'dispersionC'],
+  ['float', 'refractionIndex'],
+  ['vec3', 'absorptionColor'],
+  ['float', 'absorptionDensity'],
+  ['vec2', 'mousePos'],
+  ['vec2', 'shapeSize'],
+  ['float', 'glassSize'],
+  ['float', 'thickness'],
+  ['float', 'cornerRadius'],
+  ['float', 'superellipseExponent'],
+  ['float', 'tubeRadius'],
+  ['float', 'filmThickness'],
+  ['float', 'filmIndex'],
+  ['float', 'filmVariation'],
+  ['float', 'filmFlowSpeed']
+];
+
+/**
+ * std140 base alignment and size in floats. Matrix columns are padded to
+ * four floats.
+ */
+const STD140_LAYOUT: Record<ObjectUniformType, [number, number]> = {
+  float: [1, 1],
+  vec2: [2, 2],
+  vec3: [4, 3],
+  mat3: [4, 12]
+};
+
+export const OBJECT_BLOCK_NAME = 'GlassObject';
+export const OBJECT_BLOCK_BINDING = 0;
+
+const OBJECT_OFFSETS: number[] = [];
+let blockFloats = 0;
+OBJECT_UNIFORMS.forEach(([type]) => {
+  const [alignment, size] = STD140_LAYOUT[type];
+  const offset = Math.ceil(blockFloats / alignment) * alignment;
+  OBJECT_OFFSETS.push(offset);
+  blockFloats = offset + size;
+});
+
+/** Size of the block in bytes, rounded up to a vec4 */
+export const OBJECT_BLOCK_SIZE = Math.ceil(blockFloats / 4) * 16;
+
+/**
+ * GLSL declarations of the object uniforms: members of a std140 uniform
+ * block when the program defines OBJECT_UNIFORM_BLOCK, plain uniforms
+ * otherwise
+ */
+export const objectUniformSource = [
+  '#ifdef OBJECT_UNIFORM_BLOCK',
+  `layout(std140) uniform ${OBJECT_BLOCK_NAME} {`,
+  '#define OBJECT_UNIFORM',
+  '#else',
+  '#define OBJECT_UNIFORM uniform',
+  '#endif',
+  ...OBJECT_UNIFORMS.map(([type, key]) => `OBJECT_UNIFORM ${type} u_${key};`),
+  '#ifdef OBJECT_UNIFORM_BLOCK',
+  '};',
+  '#endif'
+].join('\n');
+
+/**
+ * Distance in bytes between consecutive objects in a uniform buffer
+ */
+export function getObjectBlockStride(gl: WebGL2RenderingContext): number {
+  const alignment: number = gl.getParameter(gl.UNIFORM_BUFFER_OFFSET_ALIGNMENT);
+  return Math.ceil(OBJECT_BLOCK_SIZE / alignment) * alignment;
+}
+
+/**
+ * Pack the object uniforms of every layer into one buffer, `stride` bytes
+ * apart
+ */
+export function packObjectUniforms(layers: ShaderUniforms[], stride: number): Float32Array {
+  const data = new Float32Array((layers.length * stride) / 4);
+
+  layers.forEach((uniforms, index) => {
+    const base = (index * stride) / 4;
+    OBJECT_UNIFORMS.forEach(([type, key], member) => {
+      const offset = base + OBJECT_OFFSETS[member];
+      const value = uniforms[key] as number | ArrayLike<number>;
+
+      if (typeof value === 'number') {
+        data[offset] = value;
+      } else if (type === 'mat3') {
+        for (let column = 0; column < 3; column++) {
+          data.set(Array.prototype.slice.call(value, column * 3, column * 3 + 3), offset + column * 4);
+        }
+      } else {
+        data.set(value, offset);
+      }
+    });
+  });
+
+  return data;
+}
\ No newline at end of file
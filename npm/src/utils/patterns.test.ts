@@ -0,0 +1,68 @@
+import {
+  getPatternIndex,
+  getPatternSource,
+  getPatternUniformNames,
+  validatePatterns
+} from './patterns';
+import { ERROR_CODES, PatternDefinition } from '../types';
+
+const invalid = expect.objectContaining({ code: ERROR_CODES.INVALID_CONFIGURATION });
+
+const patterns: Record<string, PatternDefinition> = {
+  checker: {
+    source: 'return vec3(mod(floor(uv.x * checkerCount) + floor(uv.y * checkerCount), 2.0));',
+    uniforms: { checkerCount: 8 }
+  },
+  gradient: {
+    source: 'return mix(fromColor, toColor, uv.y);',
+    uniforms: { fromColor: [1, 0, 0], toColor: [0, 0, 1] }
+  }
+};
+
+describe('getPatternIndex', () => {
+  it('numbers registered patterns after the built-in ones', () => {
+    expect(getPatternIndex('stripes', patterns)).toBe(0);
+    expect(getPatternIndex('texture', patterns)).toBe(3);
+    expect(getPatternIndex('checker', patterns)).toBe(4);
+    expect(getPatternIndex('gradient', patterns)).toBe(5);
+  });
+
+  it('rejects unknown patterns', () => {
+    expect(() => getPatternIndex('plasma', patterns)).toThrow(invalid);
+  });
+});
+
+describe('validatePatterns', () => {
+  it('accepts uniforms of one to four numbers', () => {
+    expect(() => validatePatterns(patterns)).not.toThrow();
+  });
+
+  it.each<[string, Record<string, PatternDefinition>]>([
+    ['a built-in name', { grid: { source: '' } }],
+    ['an empty name', { '': { source: '' } }],
+    ['a reserved prefix', { a: { source: '', uniforms: { u_scale: 1 } } }],
+    ['an invalid identifier', { a: { source: '', uniforms: { '2x': 1 } } }],
+    ['a uniform shared by two patterns', { a: { source: '', uniforms: { scale: 1 } }, b: { source: '', uniforms: { scale: 2 } } }],
+    ['five numbers', { a: { source: '', uniforms: { color: [1, 2, 3, 4, 5] } } }]
+  ])('rejects %s', (_, definitions) => {
+    expect(() => validatePatterns(definitions)).toThrow(invalid);
+  });
+});
+
+describe('getPatternSource', () => {
+  it('declares uniforms and selects the compiled pattern', () => {
+    const source = getPatternSource({ gradient: patterns.gradient });
+
+    expect(source).toContain('uniform vec3 fromColor;');
+    expect(source).toContain(`vec3 customPattern0(vec2 uv) {\n${patterns.gradient.source}\n}`);
+    expect(source).toContain('#if BACKGROUND_PATTERN == 4\n    return customPattern0(uv);\n#endif');
+  });
+
+  it('still defines the dispatcher without registered patterns', () => {
+    expect(getPatternSource({})).toBe('vec3 getCustomPattern(vec2 uv) {\n    return vec3(0.0);\n}');
+  });
+
+  it('lists every uniform name', () => {
+    expect(getPatternUniformNames(patterns)).toEqual(['checkerCount', 'fromColor', 'toColor']);
+  });
+});
\ No newline at end of file
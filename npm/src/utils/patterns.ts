@@ -0,0 +1,82 @@
+import {
+  BackgroundPattern,
+  PatternDefinition,
+  PhysicsGlassError,
+  ERROR_CODES
+} from '../types';
+import { getUniformDeclarations, validateUniforms } from './uniforms';
+
+const BUILTIN_PATTERNS = ['stripes', 'grid', 'circles', 'texture'];
+
+/**
+ * Shader index of a pattern. Registered patterns follow the built-in ones
+ * in registration order.
+ */
+export function getPatternIndex(
+  pattern: BackgroundPattern,
+  patterns: Record<string, PatternDefinition>
+): number {
+  const index = [...BUILTIN_PATTERNS, ...Object.keys(patterns)].indexOf(pattern);
+  if (index < 0) {
+    throw new PhysicsGlassError(
+      `Unknown background pattern: ${pattern}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+  return index;
+}
+
+/**
+ * Check pattern names and uniforms, adding the uniform names to `names`
+ */
+export function validatePatterns(
+  patterns: Record<string, PatternDefinition>,
+  names = new Set<string>()
+): void {
+  Object.entries(patterns).forEach(([name, pattern]) => {
+    if (!name || BUILTIN_PATTERNS.includes(name)) {
+      throw new PhysicsGlassError(
+        `Invalid pattern name: "${name}"`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    validateUniforms(pattern.uniforms || {}, `pattern "${name}"`, names);
+  });
+}
+
+/**
+ * Names of every pattern uniform, for looking up their locations
+ */
+export function getPatternUniformNames(patterns: Record<string, PatternDefinition>): string[] {
+  const names: string[] = [];
+  Object.values(patterns).forEach((pattern) => names.push(...Object.keys(pattern.uniforms || {})));
+  return names;
+}
+
+/**
+ * GLSL for the registered patterns: their uniforms, one function per
+ * pattern wrapping its body, and `getCustomPattern`, which calls the one
+ * selected by the program's `BACKGROUND_PATTERN` define
+ */
+export function getPatternSource(patterns: Record<string, PatternDefinition>): string {
+  const definitions = Object.values(patterns);
+  const uniforms: string[] = [];
+  definitions.forEach((pattern) => uniforms.push(...getUniformDeclarations(pattern.uniforms || {})));
+  const functions = definitions.map(
+    (pattern, index) => `vec3 customPattern${index}(vec2 uv) {\n${pattern.source}\n}`
+  );
+  const branches = definitions.map(
+    (_, index) =>
+      `#if BACKGROUND_PATTERN == ${BUILTIN_PATTERNS.length + index}\n    return customPattern${index}(uv);\n#endif`
+  );
+
+  return [
+    ...uniforms,
+    ...functions,
+    'vec3 getCustomPattern(vec2 uv) {',
+    ...branches,
+    '    return vec3(0.0);',
+    '}'
+  ].join('\n');
+}
\ No newline at end of file
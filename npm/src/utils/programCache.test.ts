@@ -0,0 +1,58 @@
+import { acquireProgram, clearProgramCache, releaseProgram } from './programCache';
+import { CompiledProgram } from '../types';
+
+function createContext(): WebGLRenderingContext {
+  return { deleteProgram: jest.fn() } as unknown as WebGLRenderingContext;
+}
+
+function createCompiler(): jest.Mock<CompiledProgram, []> {
+  return jest.fn(() => ({
+    program: {} as WebGLProgram,
+    positionLocation: 0,
+    uniformLocations: {}
+  }));
+}
+
+describe('programCache', () => {
+  it('compiles each source once per context', () => {
+    const gl = createContext();
+    const compile = createCompiler();
+
+    const first = acquireProgram(gl, 'a', compile);
+    const second = acquireProgram(gl, 'a', compile);
+    acquireProgram(gl, 'b', compile);
+    acquireProgram(createContext(), 'a', compile);
+
+    expect(second.program).toBe(first.program);
+    expect(compile).toHaveBeenCalledTimes(3);
+  });
+
+  it('deletes a program when its last user releases it', () => {
+    const gl = createContext();
+    const compile = createCompiler();
+    const { program } = acquireProgram(gl, 'a', compile);
+    acquireProgram(gl, 'a', compile);
+
+    releaseProgram(gl, 'a');
+    expect(gl.deleteProgram).not.toHaveBeenCalled();
+
+    releaseProgram(gl, 'a');
+    expect(gl.deleteProgram).toHaveBeenCalledWith(program);
+
+    acquireProgram(gl, 'a', compile);
+    expect(compile).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets the programs of a lost context without deleting them', () => {
+    const gl = createContext();
+    const compile = createCompiler();
+    acquireProgram(gl, 'a', compile);
+
+    clearProgramCache(gl);
+    releaseProgram(gl, 'a');
+    acquireProgram(gl, 'a', compile);
+
+    expect(gl.deleteProgram).not.toHaveBeenCalled();
+    expect(compile).toHaveBeenCalledTimes(2);
+  });
+});
\ No newline at end of file
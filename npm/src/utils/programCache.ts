@@ -0,0 +1,57 @@
+import { CompiledProgram } from '../types';
+
+interface CacheEntry extends CompiledProgram {
+  users: number;
+}
+
+/**
+ * Programs by context and fragment source. Instances that draw with the
+ * same context share a program for the same source, and the program is
+ * deleted when its last user releases it. A WebGL program can't be used
+ * from another context, so instances on separate canvases each compile
+ * their own.
+ */
+const programCaches = new WeakMap<WebGLRenderingContext, Map<string, CacheEntry>>();
+
+function getCache(gl: WebGLRenderingContext): Map<string, CacheEntry> {
+  let cache = programCaches.get(gl);
+  if (!cache) {
+    cache = new Map();
+    programCaches.set(gl, cache);
+  }
+  return cache;
+}
+
+/**
+ * Program for a fragment source, compiled with `compile` on first use
+ */
+export function acquireProgram(
+  gl: WebGLRenderingContext,
+  source: string,
+  compile: () => CompiledProgram
+): CompiledProgram {
+  const cache = getCache(gl);
+  let entry = cache.get(source);
+  if (!entry) {
+    entry = { ...compile(), users: 0 };
+    cache.set(source, entry);
+  }
+  entry.users++;
+  return entry;
+}
+
+export function releaseProgram(gl: WebGLRenderingContext, source: string): void {
+  const cache = getCache(gl);
+  const entry = cache.get(source);
+  if (!entry || --entry.users > 0) return;
+
+  gl.deleteProgram(entry.program);
+  cache.delete(source);
+}
+
+/**
+ * Forget every program of a lost context, which took them with it
+ */
+export function clearProgramCache(gl: WebGLRenderingContext): void {
+  programCaches.delete(gl);
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { getRotationMatrix, isRotated } from './rotation';
+
+/** Multiply a column-major 3×3 matrix by a vector */
+function apply(matrix: Float32Array, [x, y, z]: number[]): number[] {
+  return [0, 1, 2].map((row) => matrix[row] * x + matrix[row + 3] * y + matrix[row + 6] * z);
+}
+
+function expectVector(actual: number[], expected: number[]): void {
+  actual.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 6));
+}
+
+describe('getRotationMatrix', () => {
+  it('is the identity without a rotation', () => {
+    getRotationMatrix().forEach((value, index) => expect(value).toBeCloseTo(index % 4 === 0 ? 1 : 0));
+    expect(isRotated(getRotationMatrix(0))).toBe(false);
+  });
+
+  it('rotates a number of degrees about the viewing axis', () => {
+    const matrix = getRotationMatrix(90);
+
+    expectVector(apply(matrix, [1, 0, 0]), [0, 1, 0]);
+    expectVector(apply(matrix, [0, 0, 1]), [0, 0, 1]);
+    expect(isRotated(matrix)).toBe(true);
+  });
+
+  it('applies Euler angles about X, then Y, then Z', () => {
+    const matrix = getRotationMatrix([90, 90, 90]);
+
+    // X takes +Y to +Z, Y takes +Z to +X, Z takes +X to +Y
+    expectVector(apply(matrix, [0, 1, 0]), [0, 1, 0]);
+    // X keeps +X, Y takes +X to -Z, Z keeps -Z
+    expectVector(apply(matrix, [1, 0, 0]), [0, 0, -1]);
+  });
+
+  it('matches Euler angles for the equivalent quaternion', () => {
+    const half = (30 * Math.PI) / 180 / 2;
+    const quaternion = getRotationMatrix([Math.sin(half), 0, 0, Math.cos(half)]);
+    const euler = getRotationMatrix([30, 0, 0]);
+
+    quaternion.forEach((value, index) => expect(value).toBeCloseTo(euler[index], 6));
+  });
+
+  it('normalizes quaternions', () => {
+    const unit = getRotationMatrix([0, 0, Math.SQRT1_2, Math.SQRT1_2]);
+    const scaled = getRotationMatrix([0, 0, 3, 3]);
+
+    scaled.forEach((value, index) => expect(value).toBeCloseTo(unit[index], 6));
+  });
+
+  it('treats a zero quaternion as no rotation', () => {
+    expect(isRotated(getRotationMatrix([0, 0, 0, 0]))).toBe(false);
+  });
+
+  it('produces orthonormal matrices', () => {
+    const matrix = getRotationMatrix([20, -35, 110]);
+    const columns = [0, 1, 2].map((column) => Array.from(matrix.slice(column * 3, column * 3 + 3)));
+    const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+    columns.forEach((a, i) => columns.forEach((b, j) => {
+      expect(dot(a, b)).toBeCloseTo(i === j ? 1 : 0, 6);
+    }));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { GlassRotation } from '../types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Column-major 3×3 rotation from Euler angles in degrees, applied about
+ * X, then Y, then Z
+ */
+function eulerToMatrix(x: number, y: number, z: number): Float32Array {
+  const cx = Math.cos(x * DEG_TO_RAD);
+  const sx = Math.sin(x * DEG_TO_RAD);
+  const cy = Math.cos(y * DEG_TO_RAD);
+  const sy = Math.sin(y * DEG_TO_RAD);
+  const cz = Math.cos(z * DEG_TO_RAD);
+  const sz = Math.sin(z * DEG_TO_RAD);
+
+  return new Float32Array([
+    cz * cy, sz * cy, -sy,
+    cz * sy * sx - sz * cx, sz * sy * sx + cz * cx, cy * sx,
+    cz * sy * cx + sz * sx, sz * sy * cx - cz * sx, cy * cx
+  ]);
+}
+
+/**
+ * Column-major 3×3 rotation from a quaternion [x, y, z, w], normalized first
+ */
+function quaternionToMatrix(qx: number, qy: number, qz: number, qw: number): Float32Array {
+  const length = Math.hypot(qx, qy, qz, qw);
+  if (length < 1e-8) return eulerToMatrix(0, 0, 0);
+
+  const x = qx / length;
+  const y = qy / length;
+  const z = qz / length;
+  const w = qw / length;
+
+  return new Float32Array([
+    1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w),
+    2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w),
+    2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y)
+  ]);
+}
+
+/**
+ * Rotation matrix taking an object's local frame into canvas space. A single
+ * number rotates about the viewing axis.
+ */
+export function getRotationMatrix(rotation: GlassRotation = 0): Float32Array {
+  if (typeof rotation === 'number') {
+    return eulerToMatrix(0, 0, rotation);
+  }
+
+  if (rotation.length === 4) {
+    return quaternionToMatrix(rotation[0], rotation[1], rotation[2], rotation[3]);
+  }
+
+  return eulerToMatrix(rotation[0], rotation[1], rotation[2]);
+}
+
+/**
+ * Whether a rotation matrix differs from the identity
+ */
+export function isRotated(matrix: Float32Array): boolean {
+  return matrix[0] + matrix[4] + matrix[8] < 3 - 1e-4;
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { getShapeIndex, getShapeUniforms, resolveMaterial, validateObject } from './scene';
+import { ERROR_CODES, GLASS_MATERIALS, GlassObjectConfig, GlassShape } from '../types';
+
+const invalid = expect.objectContaining({ code: ERROR_CODES.INVALID_CONFIGURATION });
+
+describe('getShapeUniforms', () => {
+  it('derives a footprint from the size', () => {
+    const uniforms = getShapeUniforms('roundedRect', 0.1, {});
+
+    expect(uniforms.shapeSize[0]).toBeCloseTo(0.16);
+    expect(uniforms.shapeSize[1]).toBeCloseTo(0.1);
+    expect(uniforms.cornerRadius).toBeCloseTo(0.05);
+    expect(uniforms.superellipseExponent).toBe(4);
+    expect(uniforms.tubeRadius).toBeCloseTo(0.035);
+  });
+
+  it('keeps torus and custom footprints square', () => {
+    expect(getShapeUniforms('torus', 0.1, {}).shapeSize).toEqual([0.1, 0.1]);
+    expect(getShapeUniforms('custom', 0.1, {}).shapeSize).toEqual([0.1, 0.1]);
+  });
+
+  it('uses explicit dimensions as half extents', () => {
+    const uniforms = getShapeUniforms('capsule', 0.1, { width: 0.5, height: 0.2, cornerRadius: 0.08 });
+
+    expect(uniforms.shapeSize).toEqual([0.25, 0.1]);
+    expect(uniforms.cornerRadius).toBe(0.08);
+  });
+
+  it('clamps the superellipse exponent and the tube radius', () => {
+    expect(getShapeUniforms('squircle', 0.1, { exponent: 1 }).superellipseExponent).toBe(2);
+    expect(getShapeUniforms('squircle', 0.1, { exponent: 40 }).superellipseExponent).toBe(12);
+    expect(getShapeUniforms('torus', 0.1, { width: 0.2, tubeRadius: 0.5 }).tubeRadius).toBe(0.1);
+  });
+});
+
+describe('getShapeIndex', () => {
+  it('is -1 for unknown shapes', () => {
+    expect(getShapeIndex('sphere')).toBe(0);
+    expect(getShapeIndex('hexagon' as GlassShape)).toBe(-1);
+  });
+});
+
+describe('resolveMaterial', () => {
+  it('looks up presets by name and passes materials through', () => {
+    expect(resolveMaterial('water')).toBe(GLASS_MATERIALS.water);
+    expect(resolveMaterial(GLASS_MATERIALS.diamond)).toBe(GLASS_MATERIALS.diamond);
+    expect(() => resolveMaterial('unobtainium')).toThrow(invalid);
+  });
+});
+
+describe('validateObject', () => {
+  it('accepts an object that only sets some properties', () => {
+    expect(() => validateObject({ shape: 'lens', size: 0.2, material: 'crownGlass' })).not.toThrow();
+    expect(() => validateObject({})).not.toThrow();
+  });
+
+  it.each<GlassObjectConfig>([
+    { size: 0 },
+    { size: 1.5 },
+    { shape: 'hexagon' as GlassShape },
+    { material: 'unobtainium' }
+  ])('rejects %o', (object) => {
+    expect(() => validateObject(object)).toThrow(invalid);
+  });
+
+  it('rejects a custom shape of its own', () => {
+    const object = { shape: 'custom', customShape: { source: { type: 'svgPath', path: 'M0 0' } } };
+    expect(() => validateObject(object as GlassObjectConfig)).toThrow(invalid);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,144 @@
+import {
+  GlassObjectConfig,
+  GlassShape,
+  GlassMaterial,
+  ShapeDimensions,
+  ShaderUniforms,
+  PhysicsGlassConfig,
+  PhysicsGlassError,
+  ERROR_CODES,
+  GLASS_MATERIALS
+} from '../types';
+
+import {
+  createLinearDispersionModel,
+  getDispersionUniforms,
+  getRefractiveIndex,
+  FRAUNHOFER_LINES
+} from './dispersion';
+
+import { getRotationMatrix } from './rotation';
+import { getThinFilmUniforms, validateThinFilm } from './thinFilm';
+
+/**
+ * Shapes in the order of their shader index
+ */
+const GLASS_SHAPES: GlassShape[] = [
+  'sphere', 'cylinder', 'lens', 'prism', 'flat',
+  'roundedRect', 'squircle', 'capsule', 'torus', 'custom'
+];
+
+/**
+ * One glass object ready to draw, in back to front order
+ */
+export interface GlassLayer {
+  uniforms: ShaderUniforms;
+  zIndex: number;
+  refractObjectsBehind: boolean;
+}
+
+export function getShapeIndex(shape: GlassShape): number {
+  return GLASS_SHAPES.indexOf(shape);
+}
+
+/**
+ * Resolve footprint dimensions, falling back to multiples of size
+ */
+export function getShapeUniforms(
+  shape: GlassShape,
+  size: number,
+  dimensions: ShapeDimensions
+): Pick<ShaderUniforms, 'shapeSize' | 'cornerRadius' | 'superellipseExponent' | 'tubeRadius'> {
+  const isSquare = shape === 'torus' || shape === 'custom';
+  const width = dimensions.width ?? (isSquare ? 2 : 3.2) * size;
+  const height = dimensions.height ?? 2 * size;
+
+  return {
+    shapeSize: [width / 2, height / 2],
+    cornerRadius: dimensions.cornerRadius ?? 0.5 * size,
+    superellipseExponent: Math.max(2, Math.min(12, dimensions.exponent ?? 4)),
+    tubeRadius: Math.min(dimensions.tubeRadius ?? 0.35 * size, width / 2)
+  };
+}
+
+/**
+ * Look up a material preset by name, or pass a material through
+ */
+export function resolveMaterial(material: GlassMaterial | string): GlassMaterial {
+  const mat = typeof material === 'string' ? GLASS_MATERIALS[material] : material;
+  if (!mat) {
+    throw new PhysicsGlassError(
+      `Unknown glass material: ${material}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+  return mat;
+}
+
+export function validateObject(object: GlassObjectConfig): void {
+  if (object.size !== undefined && (object.size <= 0 || object.size > 1)) {
+    throw new PhysicsGlassError(
+      'Glass size must be between 0 and 1',
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if (object.shape !== undefined && getShapeIndex(object.shape) < 0) {
+    throw new PhysicsGlassError(
+      `Unknown glass shape: ${object.shape}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if (object.material !== undefined) {
+    const mat = resolveMaterial(object.material);
+    if (mat.thinFilm) validateThinFilm(mat.thinFilm);
+  }
+
+  // An instance holds a single height field, which every 'custom' object draws
+  if ('customShape' in object) {
+    throw new PhysicsGlassError(
+      `Scene objects can't have their own customShape; 'custom' objects use the shape set with setCustomShape`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+}
+
+/**
+ * Shader uniforms for a scene object, layered over the instance's uniforms
+ */
+export function getObjectUniforms(
+  base: ShaderUniforms,
+  config: Required<PhysicsGlassConfig>,
+  object: GlassObjectConfig
+): ShaderUniforms {
+  const shape = object.shape ?? config.shape;
+  const size = object.size ?? config.size;
+
+  const uniforms: ShaderUniforms = {
+    ...base,
+    ...getShapeUniforms(shape, size, object.shapeDimensions || {}),
+    mousePos: object.position ?? [0.5, 0.5],
+    glassShape: getShapeIndex(shape),
+    glassSize: size,
+    thickness: Math.max(0.01, Math.min(1, object.thickness ?? config.thickness)),
+    objectRotation: getRotationMatrix(object.rotation)
+  };
+
+  if (object.material) {
+    const mat = resolveMaterial(object.material);
+    const model = mat.dispersionModel ||
+      createLinearDispersionModel(mat.refractionIndex, mat.dispersion);
+    const { model: modelIndex, b, c } = getDispersionUniforms(model);
+
+    uniforms.refractionIndex = Math.max(1, Math.min(3, getRefractiveIndex(model, FRAUNHOFER_LINES.D)));
+    uniforms.dispersionModel = modelIndex;
+    uniforms.dispersionB = b;
+    uniforms.dispersionC = c;
+    uniforms.absorptionColor = mat.absorptionColor || [1, 1, 1];
+    uniforms.absorptionDensity = mat.absorptionDensity || 0;
+    Object.assign(uniforms, getThinFilmUniforms(mat.thinFilm));
+  }
+
+  return uniforms;
+}
\ No newline at end of file
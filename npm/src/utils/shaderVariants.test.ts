@@ -0,0 +1,74 @@
+import { getShaderVariant, getVariantDefines, getVariantKey } from './shaderVariants';
+import { ShaderUniforms, ShaderVariant } from '../types';
+
+const BASE_VARIANT: ShaderVariant = {
+  shape: 0,
+  pattern: 0,
+  environment: 0,
+  roughnessMap: false,
+  thinFilm: false,
+  caustics: false,
+  sceneLayer: false
+};
+
+describe('getShaderVariant', () => {
+  it('reads the compiled choices from the uniforms', () => {
+    const uniforms = {
+      glassShape: 3,
+      backgroundPattern: 5,
+      environmentType: 2,
+      hasRoughnessMap: 1,
+      filmThickness: 400,
+      causticsIntensity: 0
+    } as ShaderUniforms;
+
+    expect(getShaderVariant(uniforms, true)).toEqual({
+      shape: 3,
+      pattern: 5,
+      environment: 2,
+      roughnessMap: true,
+      thinFilm: true,
+      caustics: false,
+      sceneLayer: true
+    });
+  });
+});
+
+describe('getVariantKey', () => {
+  it('names each variant uniquely', () => {
+    const variants: ShaderVariant[] = [
+      BASE_VARIANT,
+      { ...BASE_VARIANT, shape: 1 },
+      { ...BASE_VARIANT, shape: 11 },
+      { ...BASE_VARIANT, pattern: 1 },
+      { ...BASE_VARIANT, environment: 1 },
+      { ...BASE_VARIANT, roughnessMap: true },
+      { ...BASE_VARIANT, thinFilm: true },
+      { ...BASE_VARIANT, caustics: true },
+      { ...BASE_VARIANT, sceneLayer: true }
+    ];
+    const keys = variants.map(getVariantKey);
+
+    expect(new Set(keys).size).toBe(variants.length);
+    expect(getVariantKey({ ...BASE_VARIANT })).toBe(getVariantKey(BASE_VARIANT));
+  });
+});
+
+describe('getVariantDefines', () => {
+  it('always defines the shape, pattern and environment', () => {
+    expect(getVariantDefines({ ...BASE_VARIANT, shape: 4, pattern: 2, environment: 3 }).split('\n')).toEqual([
+      '#define GLASS_SHAPE 4',
+      '#define BACKGROUND_PATTERN 2',
+      '#define ENVIRONMENT_TYPE 3'
+    ]);
+  });
+
+  it('defines only the enabled features', () => {
+    const defines = getVariantDefines({ ...BASE_VARIANT, thinFilm: true, sceneLayer: true });
+
+    expect(defines).toContain('#define USE_THIN_FILM');
+    expect(defines).toContain('#define USE_SCENE_LAYER');
+    expect(defines).not.toContain('USE_ROUGHNESS_MAP');
+    expect(defines).not.toContain('USE_CAUSTICS');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { ShaderUniforms, ShaderVariant } from '../types';
+
+/**
+ * Variant that draws an object with these uniforms, over a scene layer of
+ * the objects behind it or not
+ */
+export function getShaderVariant(uniforms: ShaderUniforms, sceneLayer: boolean): ShaderVariant {
+  return {
+    shape: uniforms.glassShape,
+    pattern: uniforms.backgroundPattern,
+    environment: uniforms.environmentType,
+    roughnessMap: uniforms.hasRoughnessMap > 0,
+    thinFilm: uniforms.filmThickness > 0,
+    caustics: uniforms.causticsIntensity > 0,
+    sceneLayer
+  };
+}
+
+export function getVariantKey(variant: ShaderVariant): string {
+  const flags = [variant.roughnessMap, variant.thinFilm, variant.caustics, variant.sceneLayer];
+  return [variant.shape, variant.pattern, variant.environment, ...flags.map(Number)].join(':');
+}
+
+/**
+ * Preprocessor definitions selecting the variant's code paths
+ */
+export function getVariantDefines(variant: ShaderVariant): string {
+  const defines = [
+    `#define GLASS_SHAPE ${variant.shape}`,
+    `#define BACKGROUND_PATTERN ${variant.pattern}`,
+    `#define ENVIRONMENT_TYPE ${variant.environment}`
+  ];
+
+  if (variant.roughnessMap) defines.push('#define USE_ROUGHNESS_MAP');
+  if (variant.thinFilm) defines.push('#define USE_THIN_FILM');
+  if (variant.caustics) defines.push('#define USE_CAUSTICS');
+  if (variant.sceneLayer) defines.push('#define USE_SCENE_LAYER');
+
+  return defines.join('\n');
+}
\ No newline at end of file
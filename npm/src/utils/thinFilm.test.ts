@@ -0,0 +1,46 @@
+import { getThinFilmUniforms, validateThinFilm } from './thinFilm';
+import { ERROR_CODES } from '../types';
+
+describe('getThinFilmUniforms', () => {
+  it('turns interference off without a film', () => {
+    expect(getThinFilmUniforms(null)).toEqual({
+      filmThickness: 0,
+      filmIndex: 1,
+      filmVariation: 0,
+      filmFlowSpeed: 0
+    });
+    expect(getThinFilmUniforms(undefined).filmThickness).toBe(0);
+  });
+
+  it('passes a soap film through', () => {
+    expect(getThinFilmUniforms({ thickness: 380, refractionIndex: 1.33, variation: 120, flowSpeed: 0.5 }))
+      .toEqual({ filmThickness: 380, filmIndex: 1.33, filmVariation: 120, filmFlowSpeed: 0.5 });
+  });
+
+  it('clamps thickness and index to what the shader resolves', () => {
+    const uniforms = getThinFilmUniforms({ thickness: 5000, refractionIndex: 4 });
+
+    expect(uniforms.filmThickness).toBe(2000);
+    expect(uniforms.filmIndex).toBe(3);
+  });
+
+  it('keeps the variation from making the film negative', () => {
+    expect(getThinFilmUniforms({ thickness: 100, refractionIndex: 1.5, variation: 300 }).filmVariation).toBe(100);
+  });
+});
+
+describe('validateThinFilm', () => {
+  it('accepts a valid film', () => {
+    expect(() => validateThinFilm({ thickness: 0, refractionIndex: 1 })).not.toThrow();
+  });
+
+  it.each([
+    { thickness: -1, refractionIndex: 1.33 },
+    { thickness: 300, refractionIndex: 1.33, variation: -10 },
+    { thickness: 300, refractionIndex: 0.9 }
+  ])('rejects %o', (film) => {
+    expect(() => validateThinFilm(film)).toThrow(expect.objectContaining({
+      code: ERROR_CODES.INVALID_CONFIGURATION
+    }));
+  });
+});
\ No newline at end of file
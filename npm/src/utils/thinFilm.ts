@@ -0,0 +1,38 @@
+import { ThinFilmConfig, ShaderUniforms, PhysicsGlassError, ERROR_CODES } from '../types';
+
+/**
+ * Thin-film uniforms. A zero film thickness turns interference off.
+ */
+export type ThinFilmUniforms = Pick<
+  ShaderUniforms,
+  'filmThickness' | 'filmIndex' | 'filmVariation' | 'filmFlowSpeed'
+>;
+
+export function validateThinFilm(film: ThinFilmConfig): void {
+  if (film.thickness < 0 || (film.variation ?? 0) < 0) {
+    throw new PhysicsGlassError(
+      'Film thickness and variation must not be negative',
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if (film.refractionIndex < 1) {
+    throw new PhysicsGlassError(
+      'Film refraction index must be at least 1',
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+}
+
+export function getThinFilmUniforms(film: ThinFilmConfig | null | undefined): ThinFilmUniforms {
+  if (!film) {
+    return { filmThickness: 0, filmIndex: 1, filmVariation: 0, filmFlowSpeed: 0 };
+  }
+
+  return {
+    filmThickness: Math.min(film.thickness, 2000),
+    filmIndex: Math.min(film.refractionIndex, 3),
+    filmVariation: Math.min(film.variation ?? 0, film.thickness),
+    filmFlowSpeed: film.flowSpeed ?? 0
+  };
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { getUniformDeclarations, getUniformType, validateUniformUpdate, validateUniforms } from './uniforms';
+import { ERROR_CODES } from '../types';
+
+const invalid = expect.objectContaining({ code: ERROR_CODES.INVALID_CONFIGURATION });
+
+describe('getUniformType', () => {
+  it('maps values to GLSL types by length', () => {
+    expect(getUniformType(1)).toBe('float');
+    expect(getUniformType([1, 2])).toBe('vec2');
+    expect(getUniformType([1, 2, 3])).toBe('vec3');
+    expect(getUniformType([1, 2, 3, 4])).toBe('vec4');
+    expect(getUniformType([1, 2, 3, 4, 5] as unknown as [number, number])).toBeUndefined();
+  });
+});
+
+describe('getUniformDeclarations', () => {
+  it('declares each uniform with its type', () => {
+    expect(getUniformDeclarations({ strength: 0.5, tint: [1, 0.5, 0] })).toEqual([
+      'uniform float strength;',
+      'uniform vec3 tint;'
+    ]);
+  });
+});
+
+describe('validateUniforms', () => {
+  it('collects names across owners', () => {
+    const names = new Set<string>();
+    validateUniforms({ strength: 1 }, 'pattern "waves"', names);
+    validateUniforms({ tint: [1, 1, 1] }, 'shader hooks', names);
+
+    expect(Array.from(names)).toEqual(['strength', 'tint']);
+    expect(() => validateUniforms({ strength: 2 }, 'shader hooks', names)).toThrow(invalid);
+  });
+
+  it.each(['u_time', 'gl_Color', '2scale', 'my-uniform'])('rejects the name %s', (name) => {
+    expect(() => validateUniforms({ [name]: 1 }, 'shader hooks', new Set())).toThrow(invalid);
+  });
+
+  it('rejects values that are not a float or vector', () => {
+    expect(() => validateUniforms({ weights: [] as unknown as [number, number] }, 'shader hooks', new Set()))
+      .toThrow(invalid);
+  });
+});
+
+describe('validateUniformUpdate', () => {
+  it('accepts a value of the same type', () => {
+    expect(() => validateUniformUpdate([0, 0], 'offset', 'shader hooks', [1, 1])).not.toThrow();
+  });
+
+  it('rejects undeclared uniforms and type changes', () => {
+    expect(() => validateUniformUpdate(undefined, 'offset', 'shader hooks', 1)).toThrow(invalid);
+    expect(() => validateUniformUpdate(1, 'offset', 'shader hooks', [1, 1])).toThrow(invalid);
+  });
+});
\ No newline at end of file
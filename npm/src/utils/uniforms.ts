@@ -0,0 +1,86 @@
+import { UniformValue, PhysicsGlassError, ERROR_CODES } from '../types';
+
+const UNIFORM_TYPES = ['float', 'vec2', 'vec3', 'vec4'];
+const IDENTIFIER = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export function getUniformType(value: UniformValue): string | undefined {
+  return UNIFORM_TYPES[typeof value === 'number' ? 0 : value.length - 1];
+}
+
+/**
+ * Check custom uniforms declared by `owner`. Custom uniforms share the
+ * shader's namespace, so their names must be unique across `names` and may
+ * not use the `u_` and `gl_` prefixes reserved for the renderer.
+ */
+export function validateUniforms(
+  uniforms: Record<string, UniformValue>,
+  owner: string,
+  names: Set<string>
+): void {
+  Object.entries(uniforms).forEach(([name, value]) => {
+    if (!IDENTIFIER.test(name) || /^(u_|gl_)/.test(name) || names.has(name)) {
+      throw new PhysicsGlassError(
+        `Invalid or duplicate uniform "${name}" in ${owner}`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+
+    if (!getUniformType(value)) {
+      throw new PhysicsGlassError(
+        `Uniform "${name}" in ${owner} must be a number or 2 to 4 numbers`,
+        ERROR_CODES.INVALID_CONFIGURATION
+      );
+    }
+    names.add(name);
+  });
+}
+
+/**
+ * Check that a new value for a declared uniform keeps its GLSL type
+ */
+export function validateUniformUpdate(
+  current: UniformValue | undefined,
+  name: string,
+  owner: string,
+  value: UniformValue
+): void {
+  if (current === undefined) {
+    throw new PhysicsGlassError(
+      `${owner} has no uniform "${name}"`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+
+  if (getUniformType(current) !== getUniformType(value)) {
+    throw new PhysicsGlassError(
+      `Uniform "${name}" must stay a ${getUniformType(current)}`,
+      ERROR_CODES.INVALID_CONFIGURATION
+    );
+  }
+}
+
+export function getUniformDeclarations(uniforms: Record<string, UniformValue>): string[] {
+  return Object.entries(uniforms).map(([name, value]) => `uniform ${getUniformType(value)} ${name};`);
+}
+
+/**
+ * Upload custom uniforms to the current program
+ */
+export function setUniformValues(
+  gl: WebGLRenderingContext,
+  locations: Record<string, WebGLUniformLocation | null>,
+  uniforms: Record<string, UniformValue>
+): void {
+  Object.entries(uniforms).forEach(([name, value]) => {
+    const location = locations[name];
+    if (typeof value === 'number') {
+      gl.uniform1f(location, value);
+    } else if (value.length === 2) {
+      gl.uniform2fv(location, value);
+    } else if (value.length === 3) {
+      gl.uniform3fv(location, value);
+    } else {
+      gl.uniform4fv(location, value);
+    }
+  });
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { upgradeShaderSource } from './webgl';
+
+const gl = { VERTEX_SHADER: 0x8b31, FRAGMENT_SHADER: 0x8b30 } as WebGLRenderingContext;
+
+describe('upgradeShaderSource', () => {
+  it('turns attributes and varyings into vertex inputs and outputs', () => {
+    const source = [
+      'attribute vec2 a_position;',
+      'varying vec2 v_uv;',
+      'void main() { v_uv = a_position; gl_Position = vec4(a_position, 0.0, 1.0); }'
+    ].join('\n');
+
+    expect(upgradeShaderSource(gl, gl.VERTEX_SHADER, source).split('\n')).toEqual([
+      '#version 300 es',
+      '#define WEBGL2',
+      'in vec2 a_position;',
+      'out vec2 v_uv;',
+      'void main() { v_uv = a_position; gl_Position = vec4(a_position, 0.0, 1.0); }'
+    ]);
+  });
+
+  it('declares the fragment output and renames texture lookups', () => {
+    const source = [
+      'varying vec2 v_uv;',
+      'void main() { gl_FragColor = texture2D(u_map, v_uv) + textureCube(u_cube, vec3(v_uv, 1.0)); }'
+    ].join('\n');
+
+    expect(upgradeShaderSource(gl, gl.FRAGMENT_SHADER, source).split('\n')).toEqual([
+      '#version 300 es',
+      '#define WEBGL2',
+      'out highp vec4 outColor;',
+      'in vec2 v_uv;',
+      'void main() { outColor = texture(u_map, v_uv) + texture(u_cube, vec3(v_uv, 1.0)); }'
+    ]);
+  });
+
+  it('only renames whole words', () => {
+    const source = 'float u_varying_mix; vec4 texture2DLod_fallback; float attributes;';
+    expect(upgradeShaderSource(gl, gl.FRAGMENT_SHADER, source)).toContain(source);
+  });
+
+  it('leaves sources that declare a version alone', () => {
+    const source = '#version 300 es\nin vec2 v_uv;\nout vec4 color;\nvoid main() { color = vec4(v_uv, 0.0, 1.0); }';
+    expect(upgradeShaderSource(gl, gl.FRAGMENT_SHADER, source)).toBe(source);
+  });
+});
\ No newline at end of file
@@ -1,4 +1,10 @@
-import { PhysicsGlassError, ERROR_CODES } from '../types';
+import {
+  PhysicsGlassError,
+  ERROR_CODES,
+  RenderTarget,
+  RendererCapabilities,
+  TextureFormat
+} from '../types';
 
 /**
  * Check if WebGL is supported in the current browser
@@ -13,6 +19,10 @@ export function isWebGLSupported(): boolean {
   }
 }
 
+export function isWebGL2(gl: WebGLRenderingContext): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+}
+
 /**
  * Get WebGL context with proper fallbacks
  */
@@ -44,7 +54,43 @@ export function getWebGLContext(canvas: HTMLCanvasElement): WebGLRenderingContex
 }
 
 /**
- * Compile a shader from source code
+ * Features of the backend a context was created with
+ */
+export function getRendererCapabilities(gl: WebGLRenderingContext): RendererCapabilities {
+  const webgl2 = isWebGL2(gl);
+  return {
+    backend: webgl2 ? 'webgl2' : 'webgl',
+    shadingLanguage: webgl2 ? 'GLSL ES 3.00' : 'GLSL ES 1.00',
+    vertexArrayObjects: webgl2,
+    uniformBuffers: webgl2,
+    halfFloatRenderTargets: getHalfFloatFormat(gl) !== null,
+    maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    vertexTextureUnits: gl.getParameter(gl.MAX_VERTEX_TEXTURE_IMAGE_UNITS)
+  };
+}
+
+/**
+ * Rewrite a GLSL ES 1.00 shader as GLSL ES 3.00, defining WEBGL2 for code
+ * that uses the newer built-ins. Sources that declare a version are left
+ * as they are.
+ */
+export function upgradeShaderSource(gl: WebGLRenderingContext, type: number, source: string): string {
+  if (/^\s*#version/.test(source)) return source;
+
+  const isFragment = type === gl.FRAGMENT_SHADER;
+  const body = source
+    .replace(/\battribute\b/g, 'in')
+    .replace(/\bvarying\b/g, isFragment ? 'in' : 'out')
+    .replace(/\b(texture2D|textureCube)\b/g, 'texture')
+    .replace(/\bgl_FragColor\b/g, 'outColor');
+  const header = ['#version 300 es', '#define WEBGL2'];
+  if (isFragment) header.push('out highp vec4 outColor;');
+
+  return `${header.join('\n')}\n${body}`;
+}
+
+/**
+ * Compile a shader from GLSL ES 1.00 source, as GLSL ES 3.00 on WebGL2
  */
 export function createShader(
   gl: WebGLRenderingContext,
@@ -59,7 +105,7 @@ export function createShader(
     );
   }
 
-  gl.shaderSource(shader, source);
+  gl.shaderSource(shader, isWebGL2(gl) ? upgradeShaderSource(gl, type, source) : source);
   gl.compileShader(shader);
 
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
@@ -92,6 +138,9 @@ export function createProgram(
 
   gl.attachShader(program, vertexShader);
   gl.attachShader(program, fragmentShader);
+  // The fullscreen quad always feeds attribute 0, so one vertex array
+  // serves every program that draws it
+  gl.bindAttribLocation(program, 0, 'a_position');
   gl.linkProgram(program);
 
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
@@ -107,11 +156,12 @@ export function createProgram(
 }
 
 /**
- * Create a texture from an image or canvas element
+ * Create a texture from an image, canvas, video or other uploadable element
  */
 export function createTextureFromElement(
   gl: WebGLRenderingContext,
-  element: HTMLImageElement | HTMLCanvasElement
+  element: TexImageSource,
+  internalFormat: number = gl.RGBA
 ): WebGLTexture {
   const texture = gl.createTexture();
   if (!texture) {
@@ -122,7 +172,7 @@ export function createTextureFromElement(
   }
 
   gl.bindTexture(gl.TEXTURE_2D, texture);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, element);
+  gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, gl.RGBA, gl.UNSIGNED_BYTE, element);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
@@ -131,25 +181,88 @@ export function createTextureFromElement(
   return texture;
 }
 
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
 /**
- * Load an image and create a texture from it
+ * Internal format for sRGB-encoded color textures. WebGL 2 stores them as
+ * SRGB8_ALPHA8, which decodes to linear light when sampled, so filtering
+ * and mipmaps average linear values. WebGL 1's EXT_sRGB can't generate
+ * mipmaps, so there the bytes are stored as they are and the shader decodes.
  */
-export function loadImageTexture(
+export function getSrgbTextureFormat(gl: WebGLRenderingContext): number {
+  return isWebGL2(gl) ? gl.SRGB8_ALPHA8 : gl.RGBA;
+}
+
+/**
+ * Set filtering and wrapping for the bound 2D texture after an upload.
+ * Minified textures sample from mipmaps, and repeating textures wrap in
+ * hardware, where the context allows it: WebGL 1 needs power-of-two sizes
+ * for both. Textures that are uploaded every frame skip mipmaps, which
+ * would be rebuilt with each upload. Returns whether the texture wraps.
+ */
+export function setTextureSampling(
   gl: WebGLRenderingContext,
-  url: string
-): Promise<WebGLTexture> {
+  width: number,
+  height: number,
+  repeat: boolean,
+  mipmaps = true
+): boolean {
+  const isFullySupported = isWebGL2(gl) || (isPowerOfTwo(width) && isPowerOfTwo(height));
+  const wraps = repeat && isFullySupported;
+  const hasMipmaps = mipmaps && isFullySupported;
+
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wraps ? gl.REPEAT : gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wraps ? gl.REPEAT : gl.CLAMP_TO_EDGE);
+  gl.texParameteri(
+    gl.TEXTURE_2D,
+    gl.TEXTURE_MIN_FILTER,
+    hasMipmaps ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR
+  );
+  if (hasMipmaps) {
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+
+  return wraps;
+}
+
+/**
+ * Create a texture from raw RGBA bytes, bypassing any browser color conversion
+ */
+export function createDataTexture(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number,
+  data: Uint8Array
+): WebGLTexture {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new PhysicsGlassError(
+      'Failed to create texture',
+      ERROR_CODES.TEXTURE_LOAD_FAILED
+    );
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  return texture;
+}
+
+/**
+ * Load an image element from a URL
+ */
+export function loadImage(url: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const image = new Image();
     image.crossOrigin = 'anonymous';
     
-    image.onload = () => {
-      try {
-        const texture = createTextureFromElement(gl, image);
-        resolve(texture);
-      } catch (error) {
-        reject(error);
-      }
-    };
+    image.onload = () => resolve(image);
     
     image.onerror = () => {
       reject(new PhysicsGlassError(
@@ -162,10 +275,74 @@ export function loadImageTexture(
   });
 }
 
+/**
+ * Load an image and create a texture from it
+ */
+export async function loadImageTexture(
+  gl: WebGLRenderingContext,
+  url: string
+): Promise<WebGLTexture> {
+  const image = await loadImage(url);
+  return createTextureFromElement(gl, image);
+}
+
+/**
+ * Create a cubemap texture from six square faces in +X, -X, +Y, -Y, +Z, -Z order
+ */
+export function createCubemapFromElements(
+  gl: WebGLRenderingContext,
+  faces: (HTMLImageElement | HTMLCanvasElement)[]
+): WebGLTexture {
+  if (faces.length !== 6) {
+    throw new PhysicsGlassError(
+      `Cubemap needs 6 faces, got ${faces.length}`,
+      ERROR_CODES.TEXTURE_LOAD_FAILED
+    );
+  }
+
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new PhysicsGlassError(
+      'Failed to create texture',
+      ERROR_CODES.TEXTURE_LOAD_FAILED
+    );
+  }
+
+  gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+  faces.forEach((face, index) => {
+    gl.texImage2D(
+      gl.TEXTURE_CUBE_MAP_POSITIVE_X + index,
+      0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, face
+    );
+  });
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  return texture;
+}
+
+/**
+ * Load six face images and create a cubemap texture from them
+ */
+export async function loadCubemapTexture(
+  gl: WebGLRenderingContext,
+  faces: (HTMLImageElement | HTMLCanvasElement | string)[]
+): Promise<WebGLTexture> {
+  const elements = await Promise.all(
+    faces.map((face) => (typeof face === 'string' ? loadImage(face) : face))
+  );
+  return createCubemapFromElements(gl, elements);
+}
+
 /**
  * Create a default fallback texture with a gradient
  */
-export function createDefaultTexture(gl: WebGLRenderingContext): WebGLTexture {
+export function createDefaultTexture(
+  gl: WebGLRenderingContext,
+  internalFormat: number = gl.RGBA
+): WebGLTexture {
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d')!;
   canvas.width = 256;
@@ -180,7 +357,7 @@ export function createDefaultTexture(gl: WebGLRenderingContext): WebGLTexture {
   ctx.fillStyle = gradient;
   ctx.fillRect(0, 0, 256, 256);
 
-  return createTextureFromElement(gl, canvas);
+  return createTextureFromElement(gl, canvas, internalFormat);
 }
 
 /**
@@ -225,6 +402,99 @@ export function createQuadBuffer(gl: WebGLRenderingContext): WebGLBuffer {
   return buffer;
 }
 
+/**
+ * Vertex array feeding a quad buffer to attribute 0, so drawing it needs
+ * no attribute setup
+ */
+export function createQuadVertexArray(
+  gl: WebGL2RenderingContext,
+  buffer: WebGLBuffer
+): WebGLVertexArrayObject {
+  const vertexArray = gl.createVertexArray();
+  if (!vertexArray) {
+    throw new PhysicsGlassError(
+      'Failed to create vertex array',
+      ERROR_CODES.WEBGL_NOT_SUPPORTED
+    );
+  }
+
+  gl.bindVertexArray(vertexArray);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  return vertexArray;
+}
+
+/**
+ * Create an offscreen framebuffer that renders into a texture
+ */
+export function createRenderTarget(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number,
+  format: TextureFormat = { internalFormat: gl.RGBA, type: gl.UNSIGNED_BYTE }
+): RenderTarget {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  if (!texture || !framebuffer) {
+    throw new PhysicsGlassError(
+      'Failed to create render target',
+      ERROR_CODES.WEBGL_NOT_SUPPORTED
+    );
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, format.internalFormat, width, height, 0, gl.RGBA, format.type, null);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  return { framebuffer, texture, width, height };
+}
+
+/**
+ * Release the framebuffer and texture of a render target
+ */
+export function deleteRenderTarget(gl: WebGLRenderingContext, target: RenderTarget): void {
+  gl.deleteFramebuffer(target.framebuffer);
+  gl.deleteTexture(target.texture);
+}
+
+/**
+ * Half-float format for render targets, or null when the context can't
+ * render to and linearly filter one. Rendering is confirmed with a test
+ * target, since some browsers render to half floats without advertising it.
+ */
+export function getHalfFloatFormat(gl: WebGLRenderingContext): TextureFormat | null {
+  let format: TextureFormat;
+  if (isWebGL2(gl)) {
+    if (!gl.getExtension('EXT_color_buffer_half_float') && !gl.getExtension('EXT_color_buffer_float')) {
+      return null;
+    }
+    format = { internalFormat: gl.RGBA16F, type: gl.HALF_FLOAT };
+  } else {
+    const halfFloat = gl.getExtension('OES_texture_half_float');
+    if (!halfFloat || !gl.getExtension('OES_texture_half_float_linear')) return null;
+    gl.getExtension('EXT_color_buffer_half_float');
+    format = { internalFormat: gl.RGBA, type: halfFloat.HALF_FLOAT_OES };
+  }
+
+  const target = createRenderTarget(gl, 1, 1, format);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+  const isComplete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  deleteRenderTarget(gl, target);
+
+  return isComplete ? format : null;
+}
+
 /**
  * Handle WebGL context loss and restoration
  */